@@ -0,0 +1,121 @@
+import { isZodError } from "../helpers";
+import {
+	type ErrorModel,
+	type FailureResult,
+	failure,
+	isFailureResult,
+	validationError,
+} from "../models";
+import { CommonErrors } from "./common.error";
+
+export type AppErrorOptions = {
+	/** Field-level error messages keyed by field name */
+	fieldErrors?: Record<string, string[]>;
+	/** Form-level error messages not tied to a single field */
+	formErrors?: string[];
+	/** The underlying error that caused this one */
+	cause?: unknown;
+	/** Additional context for logging and monitoring, left out of response structs */
+	metadata?: Record<string, unknown>;
+};
+
+/**
+ * Throwable error carrying an ErrorModel, bridging throw-style code and Result-style code
+ * @example
+ * throw new AppError(AuthErrors.Forbidden, { metadata: { userId } });
+ *
+ * @example
+ * try {
+ *   await handler(req);
+ * } catch (error) {
+ *   const result = AppError.fromUnknown(error);
+ *   return res.status(result.statusCode).json(toFailureResponseStruct(result));
+ * }
+ */
+export class AppError<E extends ErrorModel = ErrorModel> extends Error {
+	readonly error: E;
+	readonly fieldErrors?: Record<string, string[]>;
+	readonly formErrors?: string[];
+	readonly metadata?: Record<string, unknown>;
+
+	constructor(error: E, options: AppErrorOptions = {}) {
+		super(error.description, { cause: options.cause });
+		this.name = "AppError";
+		this.error = error;
+		this.fieldErrors = options.fieldErrors;
+		this.formErrors = options.formErrors;
+		this.metadata = options.metadata;
+	}
+
+	get code(): E["code"] {
+		return this.error.code;
+	}
+
+	get statusCode(): E["statusCode"] {
+		return this.error.statusCode;
+	}
+
+	/**
+	 * Convert this error to a failure result
+	 * @returns Failure result with the error model, field errors, form errors and metadata
+	 */
+	toResult(): FailureResult<E> {
+		return {
+			...failure(this.error, this.fieldErrors, this.formErrors),
+			...(this.metadata !== undefined && { metadata: this.metadata }),
+		};
+	}
+
+	/**
+	 * Create a throwable AppError from a failure result
+	 * @param failResult - The failure to wrap
+	 * @param options - Cause and metadata to attach
+	 * @returns AppError carrying the failure's error model, field errors and form errors
+	 */
+	static fromResult<E extends ErrorModel>(
+		failResult: FailureResult<E>,
+		options: Omit<AppErrorOptions, "fieldErrors" | "formErrors"> = {},
+	): AppError<E> {
+		return new AppError(
+			{
+				code: failResult.code,
+				statusCode: failResult.statusCode,
+				description: failResult.description,
+			} as E,
+			{
+				...options,
+				metadata: options.metadata ?? failResult.metadata,
+				fieldErrors: failResult.fieldErrors,
+				formErrors: failResult.formErrors,
+			},
+		);
+	}
+
+	/**
+	 * Map any thrown value to a failure result
+	 * - `AppError` → its own failure
+	 * - `ZodError` → `CommonErrors.ValidationError` with field errors
+	 * - `FailureResult` → returned as is
+	 * - anything else → `CommonErrors.UnhandledError`, keeping the caught value in `metadata.cause` for logging
+	 * @param error - The caught value
+	 * @returns Failure result describing the error
+	 */
+	static fromUnknown(error: unknown): FailureResult {
+		if (isAppError(error)) return error.toResult();
+		if (isZodError(error)) return validationError(error);
+		if (isFailureResult(error)) return error;
+		return {
+			...failure(CommonErrors.UnhandledError),
+			metadata: { cause: error },
+		};
+	}
+}
+
+export function isAppError(error: unknown): error is AppError {
+	return Boolean(
+		error && // Ensures error is not null or undefined
+			(error instanceof AppError ||
+				((error as AppError).name === "AppError" &&
+					typeof (error as AppError).toResult === "function")), // Checks instance or shape as a fallback for duplicated package copies
+	);
+}
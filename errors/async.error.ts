@@ -0,0 +1,14 @@
+import { HttpStatus } from "../constants";
+import type { ErrorModel } from "../models";
+import { defineErrors } from "./catalog.error";
+
+export type AsyncError = ErrorModel & {
+	code: `async.${string}`;
+};
+
+export const AsyncErrors = defineErrors("async", {
+	RetriesExhausted: {
+		statusCode: HttpStatus.ServiceUnavailable,
+		description: "The operation failed after all retry attempts.",
+	},
+}) satisfies Record<string, AsyncError>;
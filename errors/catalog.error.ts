@@ -0,0 +1,108 @@
+import { type SnakeCase, snakeCase } from "../helpers";
+import type { ErrorModel } from "../models";
+
+export type ErrorDefinition = Omit<ErrorModel, "code">;
+
+export type DefinedErrors<
+	P extends string,
+	D extends Record<string, ErrorDefinition>,
+> = {
+	[K in keyof D & string]: {
+		code: `${P}.${SnakeCase<K>}`;
+		statusCode: D[K]["statusCode"];
+		description: string;
+	};
+};
+
+type ErrorPrefix<P extends string> = P extends "" | `${string}.${string}`
+	? never
+	: P;
+
+const errorRegistry = new Map<ErrorModel["code"], ErrorModel>();
+
+/**
+ * Register an error model in the global error registry.
+ * Registering an identical model again is a no-op, so modules re-run by HMR, watch mode
+ * or test runners can redefine their catalogs.
+ * @param error - The error model to register
+ * @throws Error if the code is already registered with a different status code or description
+ * @example registerError({ code: "billing.payment_declined", statusCode: 402, description: "..." })
+ */
+export function registerError(error: ErrorModel): void {
+	const existing = errorRegistry.get(error.code);
+	if (existing) {
+		if (
+			existing.statusCode === error.statusCode &&
+			existing.description === error.description
+		) {
+			return;
+		}
+		throw new Error(
+			`Error code "${error.code}" is already registered with a different definition`,
+		);
+	}
+	errorRegistry.set(error.code, error);
+}
+
+/**
+ * Define a namespaced error catalog. Codes are generated from the keys in snake_case
+ * and registered globally, rejecting codes already registered with a different definition.
+ * @param prefix - The namespace of every code in the catalog (e.g. "billing")
+ * @param definitions - Status code and description per error, keyed by PascalCase name
+ * @returns Error models keyed by name, with literal `prefix.snake_case` codes
+ * @throws Error if the prefix is invalid or a code is already registered with a different definition
+ * @example
+ * export const BillingErrors = defineErrors("billing", {
+ *   PaymentDeclined: {
+ *     statusCode: HttpStatus.PaymentRequired,
+ *     description: "The payment was declined.",
+ *   },
+ * });
+ * BillingErrors.PaymentDeclined.code // "billing.payment_declined"
+ */
+export function defineErrors<
+	const P extends string,
+	const D extends Record<string, ErrorDefinition>,
+>(prefix: ErrorPrefix<P>, definitions: D): DefinedErrors<P, D> {
+	if (!/^[a-z][a-z0-9_]*$/.test(prefix)) {
+		throw new Error(
+			`Invalid error prefix "${prefix}": use lowercase letters, digits and underscores`,
+		);
+	}
+
+	const errors: Record<string, ErrorModel> = {};
+
+	for (const [key, definition] of Object.entries(definitions)) {
+		const error: ErrorModel = {
+			code: `${prefix}.${snakeCase(key)}`,
+			statusCode: definition.statusCode,
+			description: definition.description,
+		};
+		registerError(error);
+		errors[key] = error;
+	}
+
+	return errors as DefinedErrors<P, D>;
+}
+
+/**
+ * Get every registered error, optionally limited to one namespace
+ * @param prefix - Only return errors whose code starts with this prefix
+ * @returns Registered error models in registration order
+ * @example getRegisteredErrors("auth") // [AuthErrors.Unauthorized, ...]
+ */
+export function getRegisteredErrors(prefix?: string): ErrorModel[] {
+	const errors = [...errorRegistry.values()];
+	if (prefix === undefined) return errors;
+	return errors.filter((error) => error.code.startsWith(`${prefix}.`));
+}
+
+/**
+ * Find a registered error by its code
+ * @param code - The error code to look up
+ * @returns The registered error model, or undefined if unknown
+ * @example findRegisteredError("auth.unauthorized") // AuthErrors.Unauthorized
+ */
+export function findRegisteredError(code: string): ErrorModel | undefined {
+	return errorRegistry.get(code as ErrorModel["code"]);
+}
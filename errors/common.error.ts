@@ -1,24 +1,210 @@
 import { HttpStatus } from "../constants";
-import type { ErrorModel } from "../models";
+import { capitalize } from "../helpers";
+import { type ErrorModel, type FailureResult, failure } from "../models";
+import { defineErrors } from "./catalog.error";
 
 export type CommonError = ErrorModel & {
 	code: `common.${string}`;
 };
 
-export const CommonErrors = {
+export const CommonErrors = defineErrors("common", {
 	ValidationError: {
-		code: "common.validation_error",
 		statusCode: HttpStatus.UnprocessableEntity,
 		description: "One or more validation errors occurred.",
 	},
 	UnhandledError: {
-		code: "common.unhandled_error",
 		statusCode: HttpStatus.InternalServerError,
 		description: "An unhandled error occurred.",
 	},
 	RateLimitExceeded: {
-		code: "common.rate_limit_exceeded",
 		statusCode: HttpStatus.TooManyRequests,
 		description: "Rate limit has been exceeded. Please try again later.",
 	},
-} satisfies Record<string, CommonError>;
+	NotFound: {
+		statusCode: HttpStatus.NotFound,
+		description: "The requested resource was not found.",
+	},
+	Conflict: {
+		statusCode: HttpStatus.Conflict,
+		description:
+			"The request conflicts with the current state of the resource.",
+	},
+	PreconditionFailed: {
+		statusCode: HttpStatus.PreconditionFailed,
+		description: "A precondition of the request was not met.",
+	},
+	PayloadTooLarge: {
+		statusCode: HttpStatus.PayloadTooLarge,
+		description: "The request payload is too large.",
+	},
+	OptimisticLockConflict: {
+		statusCode: HttpStatus.Conflict,
+		description:
+			"The resource was modified by another request. Reload it and try again.",
+	},
+	Timeout: {
+		statusCode: HttpStatus.GatewayTimeout,
+		description: "The operation timed out.",
+	},
+	ServiceUnavailable: {
+		statusCode: HttpStatus.ServiceUnavailable,
+		description:
+			"The service is temporarily unavailable. Please try again later.",
+	},
+	DependencyFailed: {
+		statusCode: HttpStatus.BadGateway,
+		description: "An upstream dependency failed to respond correctly.",
+	},
+}) satisfies Record<string, CommonError>;
+
+function withDescription<E extends ErrorModel>(
+	error: E,
+	description: string,
+): FailureResult<E> {
+	return failure({ ...error, description });
+}
+
+/**
+ * Create a not found failure describing the missing resource
+ * @param resource - Name of the resource (e.g. "user")
+ * @param id - Identifier that was looked up
+ * @returns `CommonErrors.NotFound` failure
+ * @example notFound("user", 42) // description: 'User with id "42" was not found.'
+ */
+export function notFound(
+	resource: string,
+	id?: string | number,
+): FailureResult<typeof CommonErrors.NotFound> {
+	return withDescription(
+		CommonErrors.NotFound,
+		id === undefined
+			? `${capitalize(resource)} was not found.`
+			: `${capitalize(resource)} with id "${id}" was not found.`,
+	);
+}
+
+/**
+ * Create a conflict failure for a resource
+ * @param resource - Name of the resource (e.g. "email")
+ * @param reason - Custom description of the conflict
+ * @returns `CommonErrors.Conflict` failure
+ * @example conflict("email") // description: "Email conflicts with an existing resource."
+ */
+export function conflict(
+	resource: string,
+	reason?: string,
+): FailureResult<typeof CommonErrors.Conflict> {
+	return withDescription(
+		CommonErrors.Conflict,
+		reason ?? `${capitalize(resource)} conflicts with an existing resource.`,
+	);
+}
+
+/**
+ * Create a precondition failed failure
+ * @param condition - Description of the unmet precondition
+ * @returns `CommonErrors.PreconditionFailed` failure
+ * @example preconditionFailed('If-Match header "abc" does not match') // description: 'Precondition failed: If-Match header "abc" does not match.'
+ */
+export function preconditionFailed(
+	condition?: string,
+): FailureResult<typeof CommonErrors.PreconditionFailed> {
+	return withDescription(
+		CommonErrors.PreconditionFailed,
+		condition === undefined
+			? CommonErrors.PreconditionFailed.description
+			: `Precondition failed: ${condition}.`,
+	);
+}
+
+/**
+ * Create a payload too large failure
+ * @param maxBytes - Maximum accepted payload size in bytes
+ * @returns `CommonErrors.PayloadTooLarge` failure
+ * @example payloadTooLarge(1048576) // description: "The request payload exceeds the maximum size of 1048576 bytes."
+ */
+export function payloadTooLarge(
+	maxBytes?: number,
+): FailureResult<typeof CommonErrors.PayloadTooLarge> {
+	return withDescription(
+		CommonErrors.PayloadTooLarge,
+		maxBytes === undefined
+			? CommonErrors.PayloadTooLarge.description
+			: `The request payload exceeds the maximum size of ${maxBytes} bytes.`,
+	);
+}
+
+/**
+ * Create an optimistic lock conflict failure for a resource modified concurrently
+ * @param resource - Name of the resource (e.g. "order")
+ * @param id - Identifier of the resource
+ * @returns `CommonErrors.OptimisticLockConflict` failure
+ * @example optimisticLockConflict("order", 7) // description: 'Order with id "7" was modified by another request. Reload it and try again.'
+ */
+export function optimisticLockConflict(
+	resource: string,
+	id?: string | number,
+): FailureResult<typeof CommonErrors.OptimisticLockConflict> {
+	const subject =
+		id === undefined
+			? capitalize(resource)
+			: `${capitalize(resource)} with id "${id}"`;
+
+	return withDescription(
+		CommonErrors.OptimisticLockConflict,
+		`${subject} was modified by another request. Reload it and try again.`,
+	);
+}
+
+/**
+ * Create a timeout failure
+ * @param ms - Timeout in milliseconds that was exceeded
+ * @param operation - Name of the operation that timed out
+ * @returns `CommonErrors.Timeout` failure
+ * @example timedOut(5000) // description: "Operation timed out after 5000ms"
+ */
+export function timedOut(
+	ms: number,
+	operation = "Operation",
+): FailureResult<typeof CommonErrors.Timeout> {
+	return withDescription(
+		CommonErrors.Timeout,
+		`${capitalize(operation)} timed out after ${ms}ms`,
+	);
+}
+
+/**
+ * Create a service unavailable failure
+ * @param service - Name of the unavailable service
+ * @returns `CommonErrors.ServiceUnavailable` failure
+ * @example serviceUnavailable("payment gateway") // description: "Payment gateway is temporarily unavailable. Please try again later."
+ */
+export function serviceUnavailable(
+	service?: string,
+): FailureResult<typeof CommonErrors.ServiceUnavailable> {
+	return withDescription(
+		CommonErrors.ServiceUnavailable,
+		service === undefined
+			? CommonErrors.ServiceUnavailable.description
+			: `${capitalize(service)} is temporarily unavailable. Please try again later.`,
+	);
+}
+
+/**
+ * Create a dependency failure for an upstream service that errored
+ * @param dependency - Name of the upstream dependency
+ * @param reason - Additional detail about the failure
+ * @returns `CommonErrors.DependencyFailed` failure
+ * @example dependencyFailed("inventory service", "HTTP 500") // description: "Inventory service failed to respond correctly: HTTP 500."
+ */
+export function dependencyFailed(
+	dependency: string,
+	reason?: string,
+): FailureResult<typeof CommonErrors.DependencyFailed> {
+	return withDescription(
+		CommonErrors.DependencyFailed,
+		reason === undefined
+			? `${capitalize(dependency)} failed to respond correctly.`
+			: `${capitalize(dependency)} failed to respond correctly: ${reason}.`,
+	);
+}
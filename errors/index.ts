@@ -1,2 +1,6 @@
+export * from "./app.error";
+export * from "./async.error";
 export * from "./auth.error";
+export * from "./catalog.error";
 export * from "./common.error";
+export * from "./locale.error";
@@ -0,0 +1,135 @@
+import type { ErrorModel, FailureResult } from "../models";
+
+export type ErrorMessageParams = Record<string, string | number>;
+
+export type ErrorMessageTemplate =
+	| string
+	| ((params: ErrorMessageParams) => string);
+
+export type ErrorMessageCatalog = {
+	/** Descriptions keyed by error code */
+	errors?: Partial<Record<ErrorModel["code"], ErrorMessageTemplate>>;
+	/** Field and form error translations keyed by the original (English) message */
+	fieldErrors?: Record<string, ErrorMessageTemplate>;
+};
+
+const messageCatalogs = new Map<string, Required<ErrorMessageCatalog>>();
+
+/**
+ * Register translated error messages for a locale. Calling it again for the same locale merges the catalogs.
+ * @param locale - BCP 47 locale tag (e.g. "id", "en-US")
+ * @param catalog - Descriptions keyed by error code and field error translations keyed by message
+ * @example
+ * registerErrorMessages("id", {
+ *   errors: {
+ *     [AuthErrors.Unauthorized.code]: "Autentikasi diperlukan untuk mengakses sumber daya ini.",
+ *     [BillingErrors.LimitReached.code]: "Batas {limit} transaksi telah tercapai.",
+ *   },
+ *   fieldErrors: { Required: "Wajib diisi" },
+ * });
+ */
+export function registerErrorMessages(
+	locale: string,
+	catalog: ErrorMessageCatalog,
+): void {
+	const key = locale.toLowerCase();
+	const existing = messageCatalogs.get(key);
+
+	messageCatalogs.set(key, {
+		errors: { ...existing?.errors, ...catalog.errors },
+		fieldErrors: { ...existing?.fieldErrors, ...catalog.fieldErrors },
+	});
+}
+
+/**
+ * Replace `{name}` placeholders in a message template with parameter values
+ * @param template - Message template or template function
+ * @param params - Values to interpolate; unknown placeholders are left untouched
+ * @returns Formatted message
+ * @example formatErrorMessage("Batas {limit} tercapai", { limit: 5 }) // "Batas 5 tercapai"
+ */
+export function formatErrorMessage(
+	template: ErrorMessageTemplate,
+	params: ErrorMessageParams = {},
+): string {
+	if (typeof template === "function") return template(params);
+
+	return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+		name in params ? String(params[name]) : placeholder,
+	);
+}
+
+function resolveCatalogs(locale: string): Required<ErrorMessageCatalog>[] {
+	const tag = locale.toLowerCase();
+	const language = tag.split("-")[0] ?? tag;
+
+	return [tag, language]
+		.map((key) => messageCatalogs.get(key))
+		.filter((catalog) => catalog !== undefined);
+}
+
+/**
+ * Get the translated description of an error code
+ * @param code - The error code
+ * @param locale - Locale to translate to; "id-ID" falls back to "id"
+ * @param params - Values to interpolate into the message
+ * @returns The translated description, or undefined if no catalog has it
+ * @example getErrorMessage("auth.unauthorized", "id") // "Autentikasi diperlukan ..."
+ */
+export function getErrorMessage(
+	code: string,
+	locale: string,
+	params?: ErrorMessageParams,
+): string | undefined {
+	for (const catalog of resolveCatalogs(locale)) {
+		const template = catalog.errors[code as ErrorModel["code"]];
+		if (template !== undefined) return formatErrorMessage(template, params);
+	}
+	return undefined;
+}
+
+/**
+ * Translate the description, field error and form error messages of a failure.
+ * Messages without a translation keep their original (built-in English) text.
+ * @param result - The failure to translate
+ * @param locale - Locale to translate to; "id-ID" falls back to "id"
+ * @param params - Values to interpolate into the messages
+ * @returns A new failure with translated messages
+ * @example
+ * const localized = localizeFailure(result, req.headers["accept-language"] ?? "en");
+ */
+export function localizeFailure<E extends ErrorModel>(
+	result: FailureResult<E>,
+	locale: string,
+	params?: ErrorMessageParams,
+): FailureResult<E> {
+	const catalogs = resolveCatalogs(locale);
+
+	const translate = (message: string): string => {
+		for (const catalog of catalogs) {
+			const template = catalog.fieldErrors[message];
+			if (template !== undefined) return formatErrorMessage(template, params);
+		}
+		return formatErrorMessage(message, params);
+	};
+
+	const fieldErrors = result.fieldErrors
+		? Object.fromEntries(
+				Object.entries(result.fieldErrors).map(([field, messages]) => [
+					field,
+					messages.map(translate),
+				]),
+			)
+		: result.fieldErrors;
+
+	return {
+		...result,
+		description:
+			getErrorMessage(result.code, locale, params) ??
+			formatErrorMessage(result.description, params),
+		fieldErrors,
+		...(result.formErrors !== undefined && {
+			formErrors: result.formErrors.map(translate),
+		}),
+	};
+}
@@ -1,3 +1,31 @@
+import { HttpStatus, isServerErrorStatus } from "../constants";
+import {
+	AppError,
+	AsyncErrors,
+	isAppError,
+	serviceUnavailable,
+	timedOut,
+} from "../errors";
+import {
+	type AsyncResult,
+	type FailureResult,
+	failure,
+	fromPromise,
+	isFailureResult,
+	ok,
+	type Result,
+	type SuccessResult,
+} from "../models";
+
+/**
+ * Jitter strategy applied to retry delays
+ * - `none`: pure exponential backoff
+ * - `full`: random delay between 0 and the backoff delay
+ * - `equal`: half the backoff delay plus a random delay up to the other half
+ * - `decorrelated`: random delay between `initialDelay` and 3x the previous delay
+ */
+export type RetryJitter = "none" | "full" | "equal" | "decorrelated";
+
 /**
  * Options for retry function
  */
@@ -10,16 +38,155 @@ export type RetryOptions = {
 	maxDelay?: number;
 	/** Backoff multiplier (default: 2 for exponential backoff) */
 	backoffMultiplier?: number;
-	/** Function to determine if error is retryable (default: all errors are retryable) */
-	shouldRetry?: (error: unknown) => boolean;
-	/** Callback invoked on each retry attempt */
-	onRetry?: (error: unknown, attempt: number) => void;
+	/** Jitter strategy spreading out retries of concurrent callers (default: "none") */
+	jitter?: RetryJitter;
+	/** Function to determine if error is retryable, given the 1-based number of the failed attempt (default: all errors are retryable) */
+	shouldRetry?: (error: unknown, attempt: number) => boolean;
+	/** Delay in milliseconds dictated by the error (e.g. `getRetryAfterMs`); return undefined to use the backoff delay */
+	retryAfter?: (error: unknown, attempt: number) => number | undefined;
+	/** Timeout in milliseconds for each attempt; the signal passed to `fn` is aborted when it is reached */
+	attemptTimeout?: number;
+	/** Overall time limit in milliseconds across all attempts and delays */
+	deadline?: number;
+	/** Callback invoked on each retry attempt with the delay before it */
+	onRetry?: (error: unknown, attempt: number, delay: number) => void;
+	/** Signal that stops further attempts and rejects with its abort reason */
+	signal?: AbortSignal;
+};
+
+/**
+ * Options accepted by helpers that can be cancelled
+ */
+export type AbortOptions = {
+	/** Signal that cancels the operation and rejects with its abort reason */
+	signal?: AbortSignal;
 };
 
+/**
+ * Race a promise against an abort signal, removing the abort listener once settled
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+	if (!signal) return promise;
+	if (signal.aborted) return Promise.reject(signal.reason);
+
+	return new Promise((resolve, reject) => {
+		const onAbort = () => reject(signal.reason);
+		signal.addEventListener("abort", onAbort, { once: true });
+
+		promise.then(
+			(value) => {
+				signal.removeEventListener("abort", onAbort);
+				resolve(value);
+			},
+			(error) => {
+				signal.removeEventListener("abort", onAbort);
+				reject(error);
+			},
+		);
+	});
+}
+
+/**
+ * Parse an HTTP `Retry-After` header value
+ * @param value - Delay in seconds or an HTTP date
+ * @returns Delay in milliseconds, or undefined if the value is missing or invalid
+ * @example parseRetryAfter("120") // 120000
+ */
+export function parseRetryAfter(
+	value: string | null | undefined,
+): number | undefined {
+	if (!value) return undefined;
+
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+	const date = Date.parse(value);
+	if (Number.isNaN(date)) return undefined;
+	return Math.max(0, date - Date.now());
+}
+
+type RetryAfterHeaders = { get(name: string): string | null };
+
+/**
+ * Get the delay an error asks for before retrying
+ * - `AppError` or `FailureResult` with `metadata.retryAfterMs` (rate limiters, circuit breakers)
+ * - errors or responses with a `Retry-After` header (`headers` or `response.headers`)
+ * @param error - The caught value
+ * @returns Delay in milliseconds, or undefined if the error does not dictate one
+ * @example
+ * await retry(() => callApi(), { retryAfter: getRetryAfterMs });
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+	if (isAppError(error) || isFailureResult(error)) {
+		const retryAfterMs = error.metadata?.retryAfterMs;
+		return typeof retryAfterMs === "number" ? retryAfterMs : undefined;
+	}
+
+	const source = error as
+		| {
+				headers?: RetryAfterHeaders;
+				response?: { headers?: RetryAfterHeaders };
+		  }
+		| null
+		| undefined;
+	const headers = source?.headers ?? source?.response?.headers;
+
+	if (typeof headers?.get !== "function") return undefined;
+	return parseRetryAfter(headers.get("retry-after"));
+}
+
+/**
+ * Check if an error is worth retrying: server errors (5xx), `408 Request Timeout` and `429 Too Many Requests`.
+ * Thrown values are mapped with `AppError.fromUnknown`, so unknown errors count as `500`.
+ * @param error - The caught value
+ * @returns True if the error's status code is transient
+ * @example
+ * await retry(() => callApi(), { shouldRetry: isRetryableError });
+ */
+export function isRetryableError(error: unknown): boolean {
+	const { statusCode } = AppError.fromUnknown(error);
+	return (
+		isServerErrorStatus(statusCode) ||
+		statusCode === HttpStatus.RequestTimeout ||
+		statusCode === HttpStatus.TooManyRequests
+	);
+}
+
+function getBackoffDelay(
+	retryIndex: number,
+	previousDelay: number,
+	options: Required<
+		Pick<
+			RetryOptions,
+			"initialDelay" | "maxDelay" | "backoffMultiplier" | "jitter"
+		>
+	>,
+): number {
+	const { initialDelay, maxDelay, backoffMultiplier, jitter } = options;
+	const delay = Math.min(
+		initialDelay * backoffMultiplier ** retryIndex,
+		maxDelay,
+	);
+
+	switch (jitter) {
+		case "full":
+			return Math.random() * delay;
+		case "equal":
+			return delay / 2 + Math.random() * (delay / 2);
+		case "decorrelated":
+			return Math.min(
+				maxDelay,
+				initialDelay + Math.random() * (previousDelay * 3 - initialDelay),
+			);
+		default:
+			return delay;
+	}
+}
+
 /**
  * Retry a function with exponential backoff
  *
- * @param fn - The async function to retry
+ * @param fn - The async function to retry; receives a signal aborted on attempt timeout, deadline or abort
  * @param options - Retry options
  * @returns Promise that resolves with function result or rejects after all retries exhausted
  *
@@ -33,11 +200,13 @@ export type RetryOptions = {
  * **Frontend**: Retry failed API calls, image loads, or external resources
  * ```typescript
  * const data = await retry(
- *   () => fetch('/api/data').then(r => r.json()),
+ *   (signal) => fetch('/api/data', { signal }).then(r => r.json()),
  *   {
  *     maxRetries: 3,
  *     initialDelay: 1000,
- *     shouldRetry: (error) => error.status >= 500 // Only retry server errors
+ *     jitter: 'full',
+ *     attemptTimeout: 5000,
+ *     shouldRetry: (error) => isServerErrorStatus(AppError.fromUnknown(error).statusCode) // Only retry server errors
  *   }
  * );
  * ```
@@ -48,7 +217,9 @@ export type RetryOptions = {
  *   () => db.users.findOne({ id }),
  *   {
  *     maxRetries: 5,
- *     onRetry: (error, attempt) => logger.warn(`DB retry ${attempt}:`, error)
+ *     deadline: 10000,
+ *     retryAfter: getRetryAfterMs, // Honour rate limit and Retry-After delays
+ *     onRetry: (error, attempt, delay) => logger.warn(`DB retry ${attempt} in ${delay}ms:`, error)
  *   }
  * );
  * ```
@@ -57,17 +228,22 @@ export type RetryOptions = {
  * - Uses `sleep()` which is non-blocking but pauses the async function
  * - Multiple concurrent retries can accumulate - set reasonable maxRetries
  * - Exponential backoff can lead to VERY long waits: 1s → 2s → 4s → 8s → 16s → 32s
+ * - Without jitter, many instances retry in lockstep after an outage
  * - NOT suitable for operations that should fail fast (user login, payment processing)
  * - In serverless (Lambda), watch execution time limits
+ * - Delays from `retryAfter` are not capped by `maxDelay`, only by `deadline`
  *
  * **🔧 Best Practices**:
- * - Use `shouldRetry` to avoid retrying client errors (400s)
- * - Set `maxDelay` to prevent excessive waits
+ * - Use `shouldRetry` to avoid retrying client errors (400s), e.g. with `isRetryableError`
+ * - Set `maxDelay` to prevent excessive waits, and `deadline` to bound the total time
+ * - Use `jitter: "full"` or `"decorrelated"` for calls made by many clients at once
  * - Add `onRetry` callback for logging/monitoring
- * - For production, consider circuit breaker pattern to prevent cascading failures
+ * - Pass the request's `signal` so an aborted request stops the retry loop instead of running to completion
+ * - For production, wrap calls in `createCircuitBreaker` to prevent cascading failures
+ * - Share settings across call sites with `createRetryPolicy`
  */
 export async function retry<T>(
-	fn: () => Promise<T>,
+	fn: (signal: AbortSignal) => Promise<T>,
 	options: RetryOptions = {},
 ): Promise<T> {
 	const {
@@ -75,75 +251,299 @@ export async function retry<T>(
 		initialDelay = 1000,
 		maxDelay = 30000,
 		backoffMultiplier = 2,
+		jitter = "none",
 		shouldRetry = () => true,
+		retryAfter,
+		attemptTimeout,
+		deadline,
 		onRetry,
+		signal,
 	} = options;
 
+	const deadlineAt = deadline === undefined ? undefined : Date.now() + deadline;
+
+	const runAttempt = (): Promise<T> => {
+		const remaining =
+			deadlineAt === undefined ? undefined : deadlineAt - Date.now();
+
+		if (
+			remaining !== undefined &&
+			(attemptTimeout === undefined || remaining < attemptTimeout)
+		) {
+			return timeout(fn, Math.max(0, remaining), {
+				signal,
+				errorMessage: `Retries did not complete within ${deadline}ms`,
+			});
+		}
+
+		if (attemptTimeout !== undefined) {
+			return timeout(fn, attemptTimeout, { signal });
+		}
+
+		return abortable(fn(signal ?? new AbortController().signal), signal);
+	};
+
 	let lastError: unknown;
-	let delay = initialDelay;
+	let previousDelay = initialDelay;
 
 	for (let attempt = 0; attempt <= maxRetries; attempt++) {
+		signal?.throwIfAborted();
+
 		try {
-			return await fn();
+			return await runAttempt();
 		} catch (error) {
 			lastError = error;
 
-			if (attempt === maxRetries || !shouldRetry(error)) {
+			signal?.throwIfAborted();
+
+			if (attempt === maxRetries || !shouldRetry(error, attempt + 1)) {
+				throw error;
+			}
+
+			const delay =
+				retryAfter?.(error, attempt + 1) ??
+				getBackoffDelay(attempt, previousDelay, {
+					initialDelay,
+					maxDelay,
+					backoffMultiplier,
+					jitter,
+				});
+
+			if (deadlineAt !== undefined && Date.now() + delay >= deadlineAt) {
 				throw error;
 			}
 
 			if (onRetry) {
-				onRetry(error, attempt + 1);
+				onRetry(error, attempt + 1, delay);
 			}
 
-			await sleep(Math.min(delay, maxDelay));
-			delay *= backoffMultiplier;
+			await sleep(delay, { signal });
+			previousDelay = delay;
 		}
 	}
 
 	throw lastError;
 }
 
+export type RetriesExhaustedFailure = FailureResult<
+	typeof AsyncErrors.RetriesExhausted
+> & {
+	metadata: {
+		/** Number of attempts made, including the first call */
+		attempts: number;
+		/** The error of the last attempt, as a failure result */
+		lastError: FailureResult;
+	};
+};
+
+/**
+ * Retry a function with exponential backoff, resolving to a Result instead of throwing
+ *
+ * @param fn - The async function to retry
+ * @param options - Retry options
+ * @returns AsyncResult with the function result, an `async.retries_exhausted` failure carrying
+ * the attempt count and last error, or the failure of a non-retryable error (via `AppError.fromUnknown`)
+ *
+ * @example
+ * const result = await tryRetry(() => fetchData(), { maxRetries: 5 });
+ * if (isFailureResult(result) && result.code === AsyncErrors.RetriesExhausted.code) {
+ *   logger.error(`Gave up after ${result.metadata?.attempts} attempts`);
+ * }
+ */
+export function tryRetry<T>(
+	fn: (signal: AbortSignal) => Promise<T>,
+	options: RetryOptions = {},
+): AsyncResult<T> {
+	const { maxRetries = 3 } = options;
+	let attempts = 0;
+
+	return fromPromise(
+		retry((signal) => {
+			attempts++;
+			return fn(signal);
+		}, options),
+		(error): FailureResult => {
+			const lastError = AppError.fromUnknown(error);
+			if (attempts <= maxRetries) return lastError;
+
+			const exhausted: RetriesExhaustedFailure = {
+				...failure({
+					...AsyncErrors.RetriesExhausted,
+					description: `The operation failed after ${attempts} attempts.`,
+				}),
+				metadata: { attempts, lastError },
+			};
+			return exhausted;
+		},
+	);
+}
+
+/**
+ * Reusable retry settings shared across call sites
+ */
+export type RetryPolicy = {
+	/** Options applied to every execution */
+	readonly options: Readonly<RetryOptions>;
+	/** Retry a function with this policy; per-call options (e.g. `signal`) override the policy's */
+	execute: <T>(
+		fn: (signal: AbortSignal) => Promise<T>,
+		overrides?: RetryOptions,
+	) => Promise<T>;
+	/** Like `execute`, resolving to a Result instead of throwing (see `tryRetry`) */
+	tryExecute: <T>(
+		fn: (signal: AbortSignal) => Promise<T>,
+		overrides?: RetryOptions,
+	) => AsyncResult<T>;
+};
+
+/**
+ * Create a reusable retry policy
+ * @param options - Retry options shared by every execution
+ * @returns Retry policy with `execute` and `tryExecute`
+ * @example
+ * const upstreamPolicy = createRetryPolicy({
+ *   maxRetries: 4,
+ *   jitter: "decorrelated",
+ *   attemptTimeout: 2000,
+ *   deadline: 10000,
+ *   shouldRetry: isRetryableError,
+ *   retryAfter: getRetryAfterMs,
+ * });
+ *
+ * const order = await upstreamPolicy.execute((signal) => orders.get(id, { signal }), { signal: req.signal });
+ */
+export function createRetryPolicy(options: RetryOptions): RetryPolicy {
+	const policyOptions: RetryOptions = { ...options };
+
+	return {
+		options: policyOptions,
+		execute: (fn, overrides) => retry(fn, { ...policyOptions, ...overrides }),
+		tryExecute: (fn, overrides) =>
+			tryRetry(fn, { ...policyOptions, ...overrides }),
+	};
+}
+
+/**
+ * Options for timeout function
+ */
+export type TimeoutOptions = AbortOptions & {
+	/** Custom error message replacing the default timeout description */
+	errorMessage?: string;
+};
+
 /**
  * Add a timeout to a promise
- * @param promise - The promise to add timeout to
+ * @param operation - The promise to add timeout to, or a function receiving a signal that is aborted on timeout
  * @param ms - Timeout in milliseconds
- * @param errorMessage - Custom error message (optional)
- * @returns Promise that rejects if timeout is reached
+ * @param options - Custom error message, or options with an error message and an abort signal (optional)
+ * @returns Promise that rejects with an `AppError` carrying `CommonErrors.Timeout` if timeout is reached,
+ * or with the abort reason if `signal` is aborted first
  * @example
  * const result = await timeout(fetchData(), 5000);
+ *
+ * @example
+ * // The fetch itself is cancelled when the timeout is reached or the request is aborted
+ * const res = await timeout((signal) => fetch(url, { signal }), 5000, { signal: req.signal });
+ *
+ * @example
+ * try {
+ *   await timeout(fetchData(), 5000);
+ * } catch (error) {
+ *   return AppError.fromUnknown(error); // FailureResult with code "common.timeout"
+ * }
  */
 export async function timeout<T>(
-	promise: Promise<T>,
+	operation: Promise<T> | ((signal: AbortSignal) => Promise<T>),
 	ms: number,
-	errorMessage?: string,
+	options: string | TimeoutOptions = {},
 ): Promise<T> {
+	const { errorMessage, signal } =
+		typeof options === "string" ? { errorMessage: options } : options;
+
+	signal?.throwIfAborted();
+
+	const controller = new AbortController();
+	const onAbort = () => controller.abort(signal?.reason);
+	signal?.addEventListener("abort", onAbort, { once: true });
+
 	let timeoutId: ReturnType<typeof setTimeout> | undefined;
 
 	const timeoutPromise = new Promise<never>((_, reject) => {
 		timeoutId = setTimeout(() => {
-			reject(new Error(errorMessage || `Operation timed out after ${ms}ms`));
+			const failure = timedOut(ms);
+			controller.abort(
+				AppError.fromResult(
+					errorMessage ? { ...failure, description: errorMessage } : failure,
+				),
+			);
 		}, ms);
+
+		controller.signal.addEventListener(
+			"abort",
+			() => reject(controller.signal.reason),
+			{ once: true },
+		);
 	});
 
 	try {
+		const promise =
+			typeof operation === "function"
+				? operation(controller.signal)
+				: operation;
 		return await Promise.race([promise, timeoutPromise]);
 	} finally {
 		if (timeoutId) {
 			clearTimeout(timeoutId);
 		}
+		signal?.removeEventListener("abort", onAbort);
 	}
 }
 
+/**
+ * Add a timeout to a promise, resolving to a Result instead of throwing
+ * @param operation - The promise to add timeout to, or a function receiving a signal that is aborted on timeout
+ * @param ms - Timeout in milliseconds
+ * @param options - Custom error message, or options with an error message and an abort signal (optional)
+ * @returns AsyncResult with the promise value, a `common.timeout` failure, or the failure of a rejection
+ * @example
+ * const result = await tryTimeout(fetchData(), 5000);
+ */
+export function tryTimeout<T>(
+	operation: Promise<T> | ((signal: AbortSignal) => Promise<T>),
+	ms: number,
+	options?: string | TimeoutOptions,
+): AsyncResult<T> {
+	return fromPromise(timeout(operation, ms, options), AppError.fromUnknown);
+}
+
 /**
  * Delay execution for specified milliseconds
  * @param ms - Delay in milliseconds
+ * @param options - Abort signal that clears the timer and rejects with its abort reason (optional)
  * @returns Promise that resolves after delay
  * @example
  * await sleep(1000); // Wait 1 second
+ *
+ * @example
+ * await sleep(5000, { signal: controller.signal }); // Rejects as soon as the controller aborts
  */
-export function sleep(ms: number): Promise<void> {
-	return new Promise((resolve) => setTimeout(resolve, ms));
+export function sleep(ms: number, options: AbortOptions = {}): Promise<void> {
+	const { signal } = options;
+	if (signal?.aborted) return Promise.reject(signal.reason);
+
+	return new Promise((resolve, reject) => {
+		const onAbort = () => {
+			clearTimeout(timeoutId);
+			reject(signal?.reason);
+		};
+
+		const timeoutId = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
 }
 
 /**
@@ -155,37 +555,182 @@ export function sleep(ms: number): Promise<void> {
  */
 export const delay = sleep;
 
+/**
+ * Options for debounce function
+ */
+export type DebounceOptions = AbortOptions & {
+	/** Invoke on the first call of a burst (default: false) */
+	leading?: boolean;
+	/** Invoke with the latest arguments once calls stop for `ms` (default: true); at least one edge must be enabled */
+	trailing?: boolean;
+	/** Maximum time in milliseconds a trailing call can be delayed by repeated calls */
+	maxWait?: number;
+};
+
+/**
+ * Options for throttle function
+ */
+export type ThrottleOptions = AbortOptions & {
+	/** Invoke on the first call of an interval (default: true) */
+	leading?: boolean;
+	/** Invoke with the latest arguments at the end of an interval (default: true) */
+	trailing?: boolean;
+};
+
+/**
+ * Function returned by debounce and throttle
+ */
+export type DebouncedFunction<
+	T extends (...args: Parameters<T>) => Promise<ReturnType<T>>,
+> = {
+	(...args: Parameters<T>): Promise<ReturnType<T>>;
+	/** Drop the scheduled call, rejecting its pending promises with an `AbortError` */
+	cancel: () => void;
+	/** Invoke the scheduled call now; resolves with the latest result if nothing is scheduled */
+	flush: () => Promise<ReturnType<T> | undefined>;
+	/** Whether a trailing call is scheduled */
+	pending: () => boolean;
+};
+
+type Settlers<T> = {
+	resolve: (value: T) => void;
+	reject: (reason: unknown) => void;
+};
+
 /**
  * Debounce an async function
  * @param fn - The async function to debounce
  * @param ms - Debounce delay in milliseconds
- * @returns Debounced function
+ * @param options - Leading/trailing edges, maxWait and an abort signal (optional)
+ * @returns Debounced function with `cancel()`, `flush()` and `pending()`.
+ * Every call's promise settles: calls merged into a trailing invocation resolve with its result,
+ * calls that trigger no invocation resolve with the result of their burst's leading call, and `cancel()` or an aborted
+ * signal rejects pending calls. Once the signal is aborted, every call rejects with the abort reason.
+ * @throws RangeError if both `leading` and `trailing` are false
  * @example
  * const debouncedSearch = debounce(async (query) => {
  *   return await searchAPI(query);
  * }, 300);
+ *
+ * @remarks
+ * **Frontend**: Search-as-you-type, autosave, resize handlers
+ * ```typescript
+ * const save = debounce((draft: Draft) => api.saveDraft(draft), 1000, { maxWait: 5000 });
+ * window.addEventListener('beforeunload', () => save.flush());
+ * useEffect(() => () => save.cancel(), []); // Drop the pending save on unmount
+ * ```
+ *
+ * **⚠️ Pitfalls & Safety**:
+ * - `cancel()` rejects pending promises with an `AbortError`; handle it where callers await the result
+ * - With `trailing: false`, calls during a burst resolve with the leading call's result
+ * - Recreating the debounced function (e.g. on every React render) resets its state; wrap in useMemo
  */
 export function debounce<
 	T extends (...args: Parameters<T>) => Promise<ReturnType<T>>,
->(fn: T, ms: number): (...args: Parameters<T>) => Promise<ReturnType<T>> {
+>(fn: T, ms: number, options: DebounceOptions = {}): DebouncedFunction<T> {
+	const { leading = false, trailing = true, maxWait, signal } = options;
+
+	if (!leading && !trailing) {
+		throw new RangeError("debounce needs a leading or a trailing edge");
+	}
+
 	let timeoutId: ReturnType<typeof setTimeout> | undefined;
+	let maxTimeoutId: ReturnType<typeof setTimeout> | undefined;
+	let pendingArgs: Parameters<T> | undefined;
+	let waiters: Settlers<ReturnType<T>>[] = [];
+	let lastInvocation: Promise<ReturnType<T>> | undefined;
 
-	return (...args: Parameters<T>): Promise<ReturnType<T>> => {
-		return new Promise((resolve, reject) => {
-			if (timeoutId) {
-				clearTimeout(timeoutId);
-			}
+	const invoke = (args: Parameters<T>): Promise<ReturnType<T>> => {
+		lastInvocation = (async () => fn(...args))();
+		return lastInvocation;
+	};
+
+	const invokePending = (): Promise<ReturnType<T>> | undefined => {
+		if (!pendingArgs) return undefined;
+
+		const settlers = waiters;
+		const invocation = invoke(pendingArgs);
+		pendingArgs = undefined;
+		waiters = [];
+
+		for (const { resolve, reject } of settlers) {
+			invocation.then(resolve, reject);
+		}
+		return invocation;
+	};
+
+	const clearTimers = () => {
+		clearTimeout(timeoutId);
+		clearTimeout(maxTimeoutId);
+		timeoutId = undefined;
+		maxTimeoutId = undefined;
+	};
+
+	const rejectPending = (reason: unknown) => {
+		clearTimers();
+		for (const { reject } of waiters) {
+			reject(reason);
+		}
+		pendingArgs = undefined;
+		waiters = [];
+	};
+
+	const startTimers = () => {
+		clearTimeout(timeoutId);
+		timeoutId = setTimeout(() => {
+			clearTimers();
+			if (trailing) invokePending();
+		}, ms);
 
-			timeoutId = setTimeout(async () => {
-				try {
-					const result = await fn(...args);
-					resolve(result);
-				} catch (error) {
-					reject(error);
+		if (maxWait !== undefined && maxTimeoutId === undefined) {
+			maxTimeoutId = setTimeout(() => {
+				maxTimeoutId = undefined;
+				if (trailing) {
+					invokePending();
+				} else {
+					// End the burst so the next call is a leading edge
+					clearTimers();
 				}
-			}, ms);
+			}, maxWait);
+		}
+	};
+
+	signal?.addEventListener("abort", () => rejectPending(signal.reason), {
+		once: true,
+	});
+
+	const debounced = (...args: Parameters<T>): Promise<ReturnType<T>> => {
+		if (signal?.aborted) return Promise.reject(signal.reason);
+
+		const isBurstStart = timeoutId === undefined;
+		startTimers();
+
+		if (isBurstStart && leading) {
+			return invoke(args);
+		}
+
+		if (!trailing) {
+			// Only leading edges invoke, so this call is inside a burst that already has one
+			return lastInvocation ?? invoke(args);
+		}
+
+		return new Promise((resolve, reject) => {
+			pendingArgs = args;
+			waiters.push({ resolve, reject });
 		});
 	};
+
+	return Object.assign(debounced, {
+		cancel: () =>
+			rejectPending(
+				new DOMException("Debounced call was cancelled", "AbortError"),
+			),
+		flush: (): Promise<ReturnType<T> | undefined> => {
+			clearTimers();
+			return invokePending() ?? lastInvocation ?? Promise.resolve(undefined);
+		},
+		pending: () => pendingArgs !== undefined,
+	});
 }
 
 /**
@@ -221,7 +766,11 @@ export function debounceSync<
  * Throttle an async function
  * @param fn - The async function to throttle
  * @param ms - Throttle interval in milliseconds
- * @returns Throttled function
+ * @param options - Leading/trailing edges and an abort signal (optional)
+ * @returns Throttled function with `cancel()`, `flush()` and `pending()`. Invokes at most once per `ms`;
+ * calls made during an interval resolve with the trailing invocation's result
+ * (or the latest result with `trailing: false`) instead of a stale value.
+ * @throws RangeError if both `leading` and `trailing` are false
  * @example
  * const throttledUpdate = throttle(async (data) => {
  *   return await updateAPI(data);
@@ -229,57 +778,149 @@ export function debounceSync<
  */
 export function throttle<
 	T extends (...args: Parameters<T>) => Promise<ReturnType<T>>,
->(
-	fn: T,
-	ms: number,
-): (...args: Parameters<T>) => Promise<ReturnType<T> | undefined> {
-	let isThrottled = false;
-	let lastResult: ReturnType<T> | undefined;
+>(fn: T, ms: number, options: ThrottleOptions = {}): DebouncedFunction<T> {
+	const { leading = true, trailing = true, signal } = options;
 
-	return async (...args: Parameters<T>): Promise<ReturnType<T> | undefined> => {
-		if (isThrottled) {
-			return lastResult;
-		}
+	return debounce(fn, ms, { leading, trailing, maxWait: ms, signal });
+}
 
-		isThrottled = true;
-		lastResult = await fn(...args);
+/**
+ * Options for asyncMap and asyncFilter functions
+ */
+export type AsyncMapOptions = AbortOptions & {
+	/** Maximum number of items processed at once, a positive integer or Infinity (default: 1, sequential) */
+	concurrency?: number;
+	/** Stop starting new items after the first rejection (default: true) */
+	stopOnError?: boolean;
+};
 
-		setTimeout(() => {
-			isThrottled = false;
-		}, ms);
+function assertConcurrency(concurrency: number): void {
+	if (
+		!(Number.isInteger(concurrency) && concurrency > 0) &&
+		concurrency !== Number.POSITIVE_INFINITY
+	) {
+		throw new RangeError(
+			`concurrency must be a positive integer or Infinity, got ${concurrency}`,
+		);
+	}
+}
 
-		return lastResult;
+/**
+ * Run a worker over every index with a concurrency limit. Waits for in-flight workers before rejecting.
+ */
+async function runWithConcurrency<T>(
+	array: T[],
+	worker: (item: T, index: number) => Promise<void>,
+	options: AsyncMapOptions,
+): Promise<void> {
+	const { concurrency = 1, stopOnError = true, signal } = options;
+
+	assertConcurrency(concurrency);
+	signal?.throwIfAborted();
+
+	let nextIndex = 0;
+	let firstError: { error: unknown } | undefined;
+
+	const runWorker = async () => {
+		while (nextIndex < array.length && !signal?.aborted) {
+			if (stopOnError && firstError) return;
+
+			const index = nextIndex++;
+			try {
+				await worker(array[index] as T, index);
+			} catch (error) {
+				firstError ??= { error };
+			}
+		}
 	};
+
+	const workerCount = Math.min(concurrency, array.length);
+	await abortable(
+		Promise.all(Array.from({ length: workerCount }, runWorker)),
+		signal,
+	);
+
+	if (firstError) throw firstError.error;
 }
 
 /**
- * Map an array asynchronously (sequential execution)
+ * Map an array asynchronously with an optional concurrency limit, preserving input order
  * @param array - The array to map
  * @param mapper - Async mapper function
- * @returns Promise that resolves with mapped array
+ * @param options - Concurrency, stop-on-error behaviour and an abort signal (optional)
+ * @returns Promise that resolves with mapped array in input order, or rejects with the first error
+ * once in-flight items have settled
+ * @throws RangeError if `concurrency` is not a positive integer or Infinity
  * @example
  * const results = await asyncMap([1, 2, 3], async (x) => {
  *   return await fetchData(x);
  * });
+ *
+ * @example
+ * const users = await asyncMap(ids, (id) => fetchUser(id), { concurrency: 5, signal: req.signal });
+ *
+ * @remarks
+ * **⚠️ Pitfalls & Safety**:
+ * - Sequential by default; set `concurrency` to run items in parallel
+ * - `undefined` items are passed to the mapper like any other item
+ * - With `stopOnError: false`, every item runs and the first error is thrown at the end; use `asyncMapSettled` to keep all errors
  */
 export async function asyncMap<T, U>(
 	array: T[],
 	mapper: (item: T, index: number) => Promise<U>,
+	options: AsyncMapOptions = {},
 ): Promise<U[]> {
-	const results: U[] = [];
-	for (let i = 0; i < array.length; i++) {
-		const item = array[i];
-		if (item !== undefined) {
-			results.push(await mapper(item, i));
-		}
-	}
+	const results = new Array<U>(array.length);
+
+	await runWithConcurrency(
+		array,
+		async (item, index) => {
+			results[index] = await mapper(item, index);
+		},
+		options,
+	);
+
+	return results;
+}
+
+/**
+ * Map an array asynchronously, collecting a Result per item instead of rejecting
+ * @param array - The array to map
+ * @param mapper - Async mapper function
+ * @param options - Concurrency and an abort signal (optional)
+ * @returns Promise that resolves with one Result per item in input order; rejections are mapped
+ * with `AppError.fromUnknown`. Only an aborted signal rejects.
+ * @example
+ * const results = await asyncMapSettled(emails, (email) => sendEmail(email), { concurrency: 10 });
+ * const [sent, failures] = partitionResults(results);
+ */
+export async function asyncMapSettled<T, U>(
+	array: T[],
+	mapper: (item: T, index: number) => Promise<U>,
+	options: Omit<AsyncMapOptions, "stopOnError"> = {},
+): Promise<Result<U>[]> {
+	const results = new Array<Result<U>>(array.length);
+
+	await runWithConcurrency(
+		array,
+		async (item, index) => {
+			try {
+				results[index] = ok(await mapper(item, index)) as SuccessResult<U>;
+			} catch (error) {
+				results[index] = AppError.fromUnknown(error);
+			}
+		},
+		{ ...options, stopOnError: false },
+	);
+
 	return results;
 }
 
 /**
- * Filter an array asynchronously (sequential execution)
+ * Filter an array asynchronously with an optional concurrency limit, preserving input order
  * @param array - The array to filter
  * @param predicate - Async predicate function
+ * @param options - Concurrency, stop-on-error behaviour and an abort signal (optional)
  * @returns Promise that resolves with filtered array
  * @example
  * const results = await asyncFilter([1, 2, 3], async (x) => {
@@ -289,61 +930,59 @@ export async function asyncMap<T, U>(
 export async function asyncFilter<T>(
 	array: T[],
 	predicate: (item: T, index: number) => Promise<boolean>,
+	options: AsyncMapOptions = {},
 ): Promise<T[]> {
-	const results: T[] = [];
-	for (let i = 0; i < array.length; i++) {
-		const item = array[i];
-		if (item !== undefined && (await predicate(item, i))) {
-			results.push(item);
-		}
-	}
-	return results;
+	const keep = await asyncMap(array, predicate, options);
+	return array.filter((_, index) => keep[index]);
 }
 
 /**
  * Execute async functions in parallel with concurrency limit
  * @param tasks - Array of async functions to execute
  * @param concurrency - Maximum number of concurrent executions
- * @returns Promise that resolves with array of results
+ * @param options - Abort signal that stops starting new tasks and rejects with its abort reason (optional)
+ * @returns Promise that resolves with array of results, or rejects with the first error once running tasks have settled
  * @example
  * const results = await parallelLimit(
  *   [() => fetch(url1), () => fetch(url2), () => fetch(url3)],
  *   2 // Max 2 concurrent requests
  * );
  */
-export async function parallelLimit<T>(
+export function parallelLimit<T>(
 	tasks: (() => Promise<T>)[],
 	concurrency: number,
+	options: AbortOptions = {},
 ): Promise<T[]> {
-	const results: T[] = new Array(tasks.length);
-	const executing: Set<Promise<void>> = new Set();
-
-	for (let i = 0; i < tasks.length; i++) {
-		const index = i;
-		const task = tasks[index];
-
-		if (!task) continue;
-
-		const promise = task().then((result) => {
-			results[index] = result;
-			executing.delete(promise);
-		});
-
-		executing.add(promise);
-
-		if (executing.size >= concurrency) {
-			await Promise.race(executing);
-		}
-	}
+	return asyncMap(tasks, (task) => task(), { ...options, concurrency });
+}
 
-	await Promise.all(executing);
-	return results;
+/**
+ * Execute async functions in parallel with concurrency limit, resolving to a Result instead of throwing
+ * @param tasks - Array of async functions to execute
+ * @param concurrency - Maximum number of concurrent executions
+ * @param options - Abort signal that stops starting new tasks (optional)
+ * @returns AsyncResult with all results, or the failure of the first rejection (via `AppError.fromUnknown`)
+ * @example
+ * const result = await tryParallelLimit([() => fetchUser(1), () => fetchUser(2)], 2);
+ */
+export function tryParallelLimit<T>(
+	tasks: (() => Promise<T>)[],
+	concurrency: number,
+	options?: AbortOptions,
+): AsyncResult<T[]> {
+	return fromPromise(
+		parallelLimit(tasks, concurrency, options),
+		AppError.fromUnknown,
+	);
 }
 
 /**
  * Execute async functions in chunks/batches
+ * @deprecated Use `asyncMap(tasks, (task) => task(), { concurrency })`, which starts the next task
+ * as soon as one finishes instead of waiting for the whole chunk
  * @param tasks - Array of async functions to execute
  * @param chunkSize - Number of tasks per chunk
+ * @param options - Abort signal that stops starting new chunks and rejects with its abort reason (optional)
  * @returns Promise that resolves with array of results
  * @example
  * const results = await batchExecute(
@@ -354,12 +993,19 @@ export async function parallelLimit<T>(
 export async function batchExecute<T>(
 	tasks: (() => Promise<T>)[],
 	chunkSize: number,
+	options: AbortOptions = {},
 ): Promise<T[]> {
+	const { signal } = options;
 	const results: T[] = [];
 
 	for (let i = 0; i < tasks.length; i += chunkSize) {
+		signal?.throwIfAborted();
+
 		const chunk = tasks.slice(i, i + chunkSize);
-		const chunkResults = await Promise.all(chunk.map((task) => task()));
+		const chunkResults = await abortable(
+			Promise.all(chunk.map((task) => task())),
+			signal,
+		);
 		results.push(...chunkResults);
 	}
 
@@ -369,8 +1015,9 @@ export async function batchExecute<T>(
 /**
  * Wait for a condition to be true with timeout and callbacks
  * @param condition - Function that returns a boolean or promise of boolean
- * @param options - Options for polling interval, timeout, and callbacks
- * @returns Promise that resolves when condition is true or rejects on timeout
+ * @param options - Options for polling interval, timeout, callbacks, and an abort signal that stops polling
+ * @returns Promise that resolves when condition is true or rejects with an `AppError` carrying `CommonErrors.Timeout`,
+ * or with the abort reason if `signal` is aborted
  * @example
  * await waitFor(
  *   async () => await checkStatus(),
@@ -396,6 +1043,7 @@ export async function waitFor(
 		timeout?: number;
 		onFinish?: () => void;
 		onTimeout?: () => void;
+		signal?: AbortSignal;
 	} = {},
 ): Promise<void> {
 	const {
@@ -403,12 +1051,15 @@ export async function waitFor(
 		timeout: timeoutMs = 10000,
 		onFinish,
 		onTimeout,
+		signal,
 	} = options;
 
 	const startTime = Date.now();
 
 	while (true) {
-		const result = await Promise.resolve(condition());
+		signal?.throwIfAborted();
+
+		const result = await abortable(Promise.resolve(condition()), signal);
 
 		if (result) {
 			if (onFinish) {
@@ -421,51 +1072,876 @@ export async function waitFor(
 			if (onTimeout) {
 				onTimeout();
 			}
-			throw new Error(`Condition not met within ${timeoutMs}ms`);
+			throw AppError.fromResult({
+				...timedOut(timeoutMs),
+				description: `Condition not met within ${timeoutMs}ms`,
+			});
+		}
+
+		await sleep(interval, { signal });
+	}
+}
+
+/**
+ * Wait for a condition to be true, resolving to a Result instead of throwing
+ * @param condition - Function that returns a boolean or promise of boolean
+ * @param options - Options for polling interval, timeout, and callbacks
+ * @returns AsyncResult that succeeds when the condition is met, or a `common.timeout` failure
+ * @example
+ * const result = await tryWaitFor(() => isReady(), { timeout: 30000 });
+ */
+export function tryWaitFor(
+	condition: () => boolean | Promise<boolean>,
+	options: Parameters<typeof waitFor>[1] = {},
+): AsyncResult<void> {
+	return fromPromise(waitFor(condition, options), AppError.fromUnknown);
+}
+
+/**
+ * State of a circuit breaker
+ * - `closed`: calls pass through and failures are counted
+ * - `open`: calls fail fast until `resetTimeout` elapses
+ * - `half-open`: trial calls decide whether the circuit closes again or re-opens
+ */
+export type CircuitBreakerState = "closed" | "open" | "half-open";
+
+/**
+ * Options for createCircuitBreaker function
+ */
+export type CircuitBreakerOptions = {
+	/** Consecutive failures that open the circuit (default: 5) */
+	failureThreshold?: number;
+	/** Failure rate between 0 and 1 that opens the circuit; replaces `failureThreshold` when set */
+	failureRateThreshold?: number;
+	/** Number of most recent calls used to compute the failure rate (default: 10) */
+	windowSize?: number;
+	/** Minimum recorded calls before the failure rate is evaluated (default: windowSize) */
+	minimumCalls?: number;
+	/** Time in milliseconds the circuit stays open before allowing trial calls (default: 30000) */
+	resetTimeout?: number;
+	/** Maximum concurrent trial calls while half-open (default: 1) */
+	halfOpenMaxCalls?: number;
+	/** Function to determine if an error counts as a failure (default: all errors count) */
+	isFailure?: (error: unknown) => boolean;
+	/** Name of the protected service, used in the `common.service_unavailable` description */
+	name?: string;
+	/** Callback invoked whenever the circuit changes state */
+	onStateChange?: (
+		state: CircuitBreakerState,
+		previous: CircuitBreakerState,
+	) => void;
+};
+
+export type CircuitBreaker<TArgs extends unknown[], T> = {
+	/** Current state of the circuit */
+	readonly state: CircuitBreakerState;
+	/** Call the wrapped function, rejecting with an `AppError` carrying `CommonErrors.ServiceUnavailable` while open */
+	execute: (...args: TArgs) => Promise<T>;
+	/** Call the wrapped function, resolving to a Result instead of throwing */
+	tryExecute: (...args: TArgs) => AsyncResult<T>;
+	/** Force the circuit closed and clear recorded failures */
+	reset: () => void;
+};
+
+/**
+ * Wrap an async function in a circuit breaker that fails fast while a dependency is unhealthy
+ *
+ * @param fn - The async function to protect
+ * @param options - Thresholds, reset timeout and state change callback
+ * @returns Circuit breaker exposing `execute`, `tryExecute`, `state` and `reset`.
+ * While open, calls fail with `common.service_unavailable` whose metadata carries `state` and `retryAfterMs`.
+ *
+ * @example
+ * const breaker = createCircuitBreaker(
+ *   (id: string) => timeout(paymentApi.charge(id), 2000),
+ *   { failureThreshold: 5, resetTimeout: 30000, name: "payment gateway" }
+ * );
+ *
+ * const result = await breaker.tryExecute(chargeId);
+ *
+ * @remarks
+ * **Frontend**: Stop hammering a failing API and show a degraded UI instead
+ * ```typescript
+ * const breaker = createCircuitBreaker(fetchRecommendations, {
+ *   onStateChange: (state) => setDegraded(state !== 'closed'),
+ * });
+ * ```
+ *
+ * **Backend**: Protect upstream services and combine with `retry` and `timeout`
+ * ```typescript
+ * const breaker = createCircuitBreaker(
+ *   (sku: string) => timeout(inventory.get(sku), 1000),
+ *   { failureRateThreshold: 0.5, windowSize: 20, name: 'inventory service' }
+ * );
+ *
+ * const stock = await retry(() => breaker.execute(sku), {
+ *   shouldRetry: (error) => !isAppError(error) || error.code !== CommonErrors.ServiceUnavailable.code,
+ * });
+ * ```
+ *
+ * **⚠️ Pitfalls & Safety**:
+ * - State lives in memory per instance: each server process or browser tab has its own circuit
+ * - Wrap `retry` around the breaker, not inside it, so each retry counts as a separate call
+ * - Calls that finish after the circuit changed state are not recorded
+ * - The open → half-open transition is evaluated lazily from `Date.now()`, so no timers are left running
+ *
+ * **🔧 Best Practices**:
+ * - Use `isFailure` to ignore client errors (400s) that say nothing about the dependency's health
+ * - Use `onStateChange` for logging/alerting
+ * - Tests can drive the reset timeout with fake timers that mock `Date.now()`
+ */
+export function createCircuitBreaker<TArgs extends unknown[], T>(
+	fn: (...args: TArgs) => Promise<T>,
+	options: CircuitBreakerOptions = {},
+): CircuitBreaker<TArgs, T> {
+	const {
+		failureThreshold = 5,
+		failureRateThreshold,
+		windowSize = 10,
+		minimumCalls = windowSize,
+		resetTimeout = 30000,
+		halfOpenMaxCalls = 1,
+		isFailure = () => true,
+		name,
+		onStateChange,
+	} = options;
+
+	let state: CircuitBreakerState = "closed";
+	let generation = 0;
+	let openedAt = 0;
+	let consecutiveFailures = 0;
+	let outcomes: boolean[] = [];
+	let halfOpenCalls = 0;
+
+	const transition = (next: CircuitBreakerState) => {
+		if (state === next) return;
+
+		const previous = state;
+		state = next;
+		generation++;
+		consecutiveFailures = 0;
+		outcomes = [];
+		halfOpenCalls = 0;
+
+		if (next === "open") {
+			openedAt = Date.now();
+		}
+
+		if (onStateChange) {
+			onStateChange(next, previous);
+		}
+	};
+
+	const currentState = (): CircuitBreakerState => {
+		if (state === "open" && Date.now() - openedAt >= resetTimeout) {
+			transition("half-open");
+		}
+		return state;
+	};
+
+	const shouldOpen = (): boolean => {
+		if (failureRateThreshold === undefined) {
+			return consecutiveFailures >= failureThreshold;
+		}
+		if (outcomes.length < minimumCalls) return false;
+
+		const failures = outcomes.filter(Boolean).length;
+		return failures / outcomes.length >= failureRateThreshold;
+	};
+
+	const record = (failed: boolean, callGeneration: number) => {
+		if (callGeneration !== generation) return;
+
+		if (state === "half-open") {
+			transition(failed ? "open" : "closed");
+			return;
+		}
+
+		consecutiveFailures = failed ? consecutiveFailures + 1 : 0;
+		outcomes.push(failed);
+		if (outcomes.length > windowSize) {
+			outcomes.shift();
+		}
+
+		if (failed && shouldOpen()) {
+			transition("open");
+		}
+	};
+
+	const execute = async (...args: TArgs): Promise<T> => {
+		const current = currentState();
+
+		if (
+			current === "open" ||
+			(current === "half-open" && halfOpenCalls >= halfOpenMaxCalls)
+		) {
+			throw AppError.fromResult(serviceUnavailable(name), {
+				metadata: {
+					state: current,
+					retryAfterMs: Math.max(0, openedAt + resetTimeout - Date.now()),
+				},
+			});
+		}
+
+		if (current === "half-open") {
+			halfOpenCalls++;
+		}
+
+		const callGeneration = generation;
+
+		try {
+			const result = await fn(...args);
+			record(false, callGeneration);
+			return result;
+		} catch (error) {
+			record(isFailure(error), callGeneration);
+			throw error;
+		}
+	};
+
+	return {
+		get state() {
+			return currentState();
+		},
+		execute,
+		tryExecute: (...args) =>
+			fromPromise(execute(...args), AppError.fromUnknown),
+		reset: () => {
+			transition("closed");
+			consecutiveFailures = 0;
+			outcomes = [];
+		},
+	};
+}
+
+/**
+ * Options for TaskQueue
+ */
+export type TaskQueueOptions = {
+	/** Maximum number of tasks running at once, a positive integer or Infinity (default: 1) */
+	concurrency?: number;
+	/** Start running tasks as soon as they are added (default: true) */
+	autoStart?: boolean;
+	/** Default per-task timeout in milliseconds (default: none) */
+	timeout?: number;
+};
+
+/**
+ * Options for TaskQueue.add
+ */
+export type TaskOptions = AbortOptions & {
+	/** Tasks with a higher priority run first; equal priorities run in insertion order (default: 0) */
+	priority?: number;
+	/** Timeout in milliseconds for this task, overriding the queue default */
+	timeout?: number;
+};
+
+type QueuedTask = {
+	priority: number;
+	run: () => void;
+	reject: (reason: unknown) => void;
+};
+
+/**
+ * Long-lived queue running async tasks with a concurrency cap, priorities and per-task timeouts
+ * @example
+ * const queue = new TaskQueue({ concurrency: 2, timeout: 30000 });
+ *
+ * queue.add((signal) => sendEmail(user, { signal }));
+ * queue.add(() => rebuildSearchIndex(), { priority: 10 }); // Runs before lower priority tasks
+ *
+ * await queue.onIdle(); // All tasks finished
+ *
+ * @remarks
+ * **Frontend**: Limit concurrent uploads and pause them while offline
+ * ```typescript
+ * const uploads = new TaskQueue({ concurrency: 3 });
+ * files.forEach((file) => uploads.add((signal) => upload(file, { signal })));
+ * window.addEventListener('offline', () => uploads.pause());
+ * window.addEventListener('online', () => uploads.resume());
+ * ```
+ *
+ * **Backend**: Background jobs inside a single process
+ * ```typescript
+ * const jobs = new TaskQueue({ concurrency: 5 });
+ * jobs.add(() => generateReport(id), { timeout: 60000 });
+ * process.on('SIGTERM', async () => {
+ *   jobs.clear(); // Drop waiting jobs, or onIdle() waits for them too
+ *   await jobs.onIdle(); // Let running jobs finish
+ *   process.exit(0);
+ * });
+ * ```
+ *
+ * **⚠️ Pitfalls & Safety**:
+ * - Tasks live in memory and are lost on restart; use a persistent job queue (BullMQ) for critical work
+ * - A timed out task frees its slot immediately; it keeps running unless it respects the `signal` it receives
+ * - `clear()` rejects waiting tasks with an `AbortError`; running tasks are not affected
+ * - `onIdle()` never resolves while the queue is paused with tasks waiting; `resume()` or `clear()` first
+ */
+export class TaskQueue {
+	private readonly queue: QueuedTask[] = [];
+	private readonly concurrency: number;
+	private readonly defaultTimeout?: number;
+	private running = 0;
+	private paused: boolean;
+	private emptyResolvers: (() => void)[] = [];
+	private idleResolvers: (() => void)[] = [];
+
+	constructor(options: TaskQueueOptions = {}) {
+		const { concurrency = 1, autoStart = true, timeout: timeoutMs } = options;
+
+		assertConcurrency(concurrency);
+		this.concurrency = concurrency;
+		this.defaultTimeout = timeoutMs;
+		this.paused = !autoStart;
+	}
+
+	/** Number of tasks waiting to run */
+	get size(): number {
+		return this.queue.length;
+	}
+
+	/** Number of tasks currently running */
+	get pending(): number {
+		return this.running;
+	}
+
+	/** Whether the queue is paused */
+	get isPaused(): boolean {
+		return this.paused;
+	}
+
+	/**
+	 * Add a task to the queue
+	 * @param task - Async function receiving a signal that is aborted on timeout or when `signal` aborts
+	 * @param options - Priority, timeout and an abort signal that removes the task if it has not started
+	 * @returns Promise that settles with the task's result, an `AppError` carrying `CommonErrors.Timeout`,
+	 * or the abort reason
+	 */
+	add<T>(
+		task: (signal: AbortSignal) => Promise<T>,
+		options: TaskOptions = {},
+	): Promise<T> {
+		const {
+			priority = 0,
+			timeout: timeoutMs = this.defaultTimeout,
+			signal,
+		} = options;
+
+		if (signal?.aborted) return Promise.reject(signal.reason);
+
+		return new Promise<T>((resolve, reject) => {
+			const queued: QueuedTask = {
+				priority,
+				reject,
+				run: () => {
+					signal?.removeEventListener("abort", onAbort);
+					this.running++;
+
+					const operation =
+						timeoutMs === undefined
+							? (async () => task(signal ?? new AbortController().signal))()
+							: timeout(task, timeoutMs, { signal });
+
+					const settle = () => {
+						this.running--;
+						this.next();
+					};
+
+					operation.then(
+						(value) => {
+							settle();
+							resolve(value);
+						},
+						(error) => {
+							settle();
+							reject(error);
+						},
+					);
+				},
+			};
+
+			const onAbort = () => {
+				const index = this.queue.indexOf(queued);
+				if (index === -1) return;
+
+				this.queue.splice(index, 1);
+				reject(signal?.reason);
+				this.notify();
+			};
+
+			signal?.addEventListener("abort", onAbort, { once: true });
+
+			const insertAt = this.queue.findIndex((item) => item.priority < priority);
+			this.queue.splice(
+				insertAt === -1 ? this.queue.length : insertAt,
+				0,
+				queued,
+			);
+			this.next();
+		});
+	}
+
+	/** Stop starting new tasks; running tasks continue */
+	pause(): void {
+		this.paused = true;
+	}
+
+	/** Resume starting tasks after `pause()` or when created with `autoStart: false` */
+	resume(): void {
+		this.paused = false;
+		this.next();
+	}
+
+	/** Remove all waiting tasks, rejecting them with an `AbortError` */
+	clear(): void {
+		const cleared = this.queue.splice(0);
+		for (const { reject } of cleared) {
+			reject(new DOMException("Task queue was cleared", "AbortError"));
+		}
+		this.notify();
+	}
+
+	/**
+	 * Wait until no tasks are waiting to run
+	 * @returns Promise that resolves when the queue is empty (tasks may still be running)
+	 */
+	onEmpty(): Promise<void> {
+		if (this.queue.length === 0) return Promise.resolve();
+		return new Promise((resolve) => this.emptyResolvers.push(resolve));
+	}
+
+	/**
+	 * Wait until all tasks have finished. Never resolves while the queue is paused with tasks waiting.
+	 * @returns Promise that resolves when the queue is empty and no task is running
+	 */
+	onIdle(): Promise<void> {
+		if (this.queue.length === 0 && this.running === 0) return Promise.resolve();
+		return new Promise((resolve) => this.idleResolvers.push(resolve));
+	}
+
+	private next(): void {
+		while (!this.paused && this.running < this.concurrency) {
+			const task = this.queue.shift();
+			if (!task) break;
+			task.run();
+		}
+		this.notify();
+	}
+
+	private notify(): void {
+		if (this.queue.length > 0) return;
+
+		const emptyResolvers = this.emptyResolvers.splice(0);
+		for (const resolve of emptyResolvers) {
+			resolve();
+		}
+
+		if (this.running > 0) return;
+
+		const idleResolvers = this.idleResolvers.splice(0);
+		for (const resolve of idleResolvers) {
+			resolve();
+		}
+	}
+}
+
+/**
+ * Options for acquiring a semaphore or mutex
+ */
+export type AcquireOptions = AbortOptions & {
+	/** Maximum time in milliseconds to wait for the lock (default: no limit) */
+	timeout?: number;
+};
+
+type LockWaiter = {
+	resolve: () => void;
+	reject: (reason: unknown) => void;
+};
+
+/**
+ * Counting semaphore limiting how many callers hold a permit at once, served in FIFO order
+ * @example
+ * const connections = new Semaphore(5);
+ *
+ * const rows = await connections.runExclusive(() => db.query(sql));
+ *
+ * @example
+ * await connections.acquire({ timeout: 1000 }); // Rejects with `common.timeout` after 1s
+ * try {
+ *   await db.query(sql);
+ * } finally {
+ *   connections.release();
+ * }
+ *
+ * @remarks
+ * **⚠️ Pitfalls & Safety**:
+ * - Always pair `acquire()` with `release()` in a `finally` block, or use `runExclusive`
+ * - Permits are per process; use a distributed lock (e.g. Redis) to coordinate several instances
+ * - The constructor throws a `RangeError` unless `permits` is a positive integer
+ */
+export class Semaphore {
+	private permits: number;
+	private readonly maxPermits: number;
+	private readonly waiters: LockWaiter[] = [];
+
+	constructor(permits: number) {
+		if (!Number.isInteger(permits) || permits < 1) {
+			throw new RangeError(
+				`permits must be a positive integer, got ${permits}`,
+			);
+		}
+		this.maxPermits = permits;
+		this.permits = this.maxPermits;
+	}
+
+	/** Number of permits currently available */
+	get available(): number {
+		return this.permits;
+	}
+
+	/** Number of callers waiting for a permit */
+	get waiting(): number {
+		return this.waiters.length;
+	}
+
+	/**
+	 * Wait for a permit
+	 * @param options - Acquire timeout and an abort signal that stops waiting
+	 * @returns Promise that resolves once a permit is held, or rejects with an `AppError` carrying
+	 * `CommonErrors.Timeout` or with the abort reason
+	 */
+	acquire(options: AcquireOptions = {}): Promise<void> {
+		const { timeout: timeoutMs, signal } = options;
+
+		if (signal?.aborted) return Promise.reject(signal.reason);
+
+		if (this.permits > 0) {
+			this.permits--;
+			return Promise.resolve();
+		}
+
+		return new Promise((resolve, reject) => {
+			let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+			const cleanup = () => {
+				clearTimeout(timeoutId);
+				signal?.removeEventListener("abort", onAbort);
+			};
+
+			const waiter: LockWaiter = {
+				resolve: () => {
+					cleanup();
+					resolve();
+				},
+				reject: (reason) => {
+					cleanup();
+					this.waiters.splice(this.waiters.indexOf(waiter), 1);
+					reject(reason);
+				},
+			};
+
+			const onAbort = () => waiter.reject(signal?.reason);
+
+			if (timeoutMs !== undefined) {
+				timeoutId = setTimeout(
+					() =>
+						waiter.reject(
+							AppError.fromResult(timedOut(timeoutMs, "Lock acquisition")),
+						),
+					timeoutMs,
+				);
+			}
+
+			signal?.addEventListener("abort", onAbort, { once: true });
+			this.waiters.push(waiter);
+		});
+	}
+
+	/** Release a permit, handing it to the next waiter if there is one */
+	release(): void {
+		const next = this.waiters.shift();
+		if (next) {
+			next.resolve();
+			return;
+		}
+
+		this.permits = Math.min(this.permits + 1, this.maxPermits);
+	}
+
+	/**
+	 * Run a function while holding a permit, releasing it afterwards even if the function throws
+	 * @param fn - The async function to run
+	 * @param options - Acquire timeout and abort signal
+	 * @returns Promise that resolves with the function result
+	 */
+	async runExclusive<T>(
+		fn: () => Promise<T>,
+		options?: AcquireOptions,
+	): Promise<T> {
+		await this.acquire(options);
+		try {
+			return await fn();
+		} finally {
+			this.release();
 		}
+	}
+}
+
+/**
+ * Mutual exclusion lock: a semaphore with a single permit
+ * @example
+ * const refreshLock = new Mutex();
+ *
+ * // Concurrent callers refresh the token one at a time
+ * const token = await refreshLock.runExclusive(() => refreshAccessToken());
+ */
+export class Mutex extends Semaphore {
+	constructor() {
+		super(1);
+	}
 
-		await sleep(interval);
+	/** Whether the lock is currently held */
+	get isLocked(): boolean {
+		return this.available === 0;
 	}
 }
 
+/**
+ * Set of mutexes keyed by a string, serializing work per user, resource or entity ID.
+ * Mutexes are created on demand and removed once released with nobody waiting.
+ * @example
+ * const webhookLocks = new KeyedMutex();
+ *
+ * app.post('/webhooks/payment', async (req, res) => {
+ *   await webhookLocks.runExclusive(req.body.paymentId, async () => {
+ *     if (await isProcessed(req.body.id)) return;
+ *     await processPayment(req.body);
+ *   });
+ *   res.sendStatus(200);
+ * });
+ */
+export class KeyedMutex {
+	private readonly mutexes = new Map<string, Mutex>();
+
+	/** Whether the lock for a key is currently held */
+	isLocked(key: string): boolean {
+		return this.mutexes.get(key)?.isLocked ?? false;
+	}
+
+	/**
+	 * Wait for the lock of a key
+	 * @param key - The key to lock
+	 * @param options - Acquire timeout and an abort signal that stops waiting
+	 * @returns Promise that resolves once the lock is held
+	 */
+	async acquire(key: string, options?: AcquireOptions): Promise<void> {
+		let mutex = this.mutexes.get(key);
+		if (!mutex) {
+			mutex = new Mutex();
+			this.mutexes.set(key, mutex);
+		}
+
+		try {
+			await mutex.acquire(options);
+		} catch (error) {
+			this.cleanup(key, mutex);
+			throw error;
+		}
+	}
+
+	/** Release the lock of a key */
+	release(key: string): void {
+		const mutex = this.mutexes.get(key);
+		if (!mutex) return;
+
+		mutex.release();
+		this.cleanup(key, mutex);
+	}
+
+	/**
+	 * Run a function while holding the lock of a key
+	 * @param key - The key to lock
+	 * @param fn - The async function to run
+	 * @param options - Acquire timeout and abort signal
+	 * @returns Promise that resolves with the function result
+	 */
+	async runExclusive<T>(
+		key: string,
+		fn: () => Promise<T>,
+		options?: AcquireOptions,
+	): Promise<T> {
+		await this.acquire(key, options);
+		try {
+			return await fn();
+		} finally {
+			this.release(key);
+		}
+	}
+
+	private cleanup(key: string, mutex: Mutex): void {
+		if (!mutex.isLocked && mutex.waiting === 0) {
+			this.mutexes.delete(key);
+		}
+	}
+}
+
+const MIN_CACHE_SWEEP_SIZE = 1000;
+
+/**
+ * Options for memoizeAsync function
+ */
+export type MemoizeAsyncOptions<
+	T extends (...args: Parameters<T>) => Promise<ReturnType<T>>,
+> = {
+	/** Build the cache key from the arguments (default: `JSON.stringify(args)`) */
+	keyGenerator?: (...args: Parameters<T>) => string;
+	/** Time in milliseconds a cached value stays fresh (default: forever) */
+	ttl?: number;
+	/** Maximum number of cached entries; the least recently used entry is evicted first (default: unbounded) */
+	maxSize?: number;
+	/** Time in milliseconds after `ttl` during which a stale value is returned while it is refreshed in the background */
+	staleWhileRevalidate?: number;
+	/** Cache resolved `FailureResult` values (default: true). Rejections are never cached. */
+	cacheFailures?: boolean;
+};
+
+/**
+ * Function returned by memoizeAsync
+ */
+export type MemoizedFunction<
+	T extends (...args: Parameters<T>) => Promise<ReturnType<T>>,
+> = T & {
+	/** Remove every cached value */
+	clear: () => void;
+	/** Remove the cached value of a key (as produced by `keyGenerator`); returns true if one was removed */
+	delete: (key: string) => boolean;
+};
+
 /**
  * Memoize an async function with cache expiration
  * @param fn - The async function to memoize
- * @param options - Options for cache key generation and TTL
- * @returns Memoized function
+ * @param options - Cache key generation, TTL, size bound, stale-while-revalidate and failure caching
+ * @returns Memoized function with `clear()` and `delete(key)`. Concurrent calls with the same key
+ * share one in-flight call.
  * @example
  * const cachedFetch = memoizeAsync(
  *   async (url: string) => await fetch(url),
  *   { ttl: 60000 } // Cache for 1 minute
  * );
+ *
+ * @example
+ * const getUser = memoizeAsync((id: string) => findUser(id), {
+ *   keyGenerator: (id) => id,
+ *   ttl: 60000,
+ *   staleWhileRevalidate: 300000,
+ *   maxSize: 1000,
+ *   cacheFailures: false, // Don't cache `failure(CommonErrors.NotFound)` results
+ * });
+ *
+ * await updateUser(id, changes);
+ * getUser.delete(id);
+ *
+ * @remarks
+ * **⚠️ Pitfalls & Safety**:
+ * - Without `maxSize` or `ttl` the cache grows for the lifetime of the process
+ * - With only `ttl`, expired entries are swept whenever the cache doubles in size, so memory follows
+ *   the number of keys used per `ttl`; only `maxSize` puts a hard bound on it
+ * - The default key is `JSON.stringify(args)`, so argument order and object key order matter
+ * - Background refreshes that reject keep serving the stale value until it expires
  */
 export function memoizeAsync<
 	T extends (...args: Parameters<T>) => Promise<ReturnType<T>>,
->(
-	fn: T,
-	options: {
-		keyGenerator?: (...args: Parameters<T>) => string;
-		ttl?: number;
-	} = {},
-): T {
-	const { keyGenerator = (...args) => JSON.stringify(args), ttl } = options;
+>(fn: T, options: MemoizeAsyncOptions<T> = {}): MemoizedFunction<T> {
+	const {
+		keyGenerator = (...args) => JSON.stringify(args),
+		ttl,
+		maxSize,
+		staleWhileRevalidate = 0,
+		cacheFailures = true,
+	} = options;
 
 	const cache = new Map<string, { value: ReturnType<T>; timestamp: number }>();
+	const inFlight = new Map<string, Promise<ReturnType<T>>>();
+	let sweepAt = MIN_CACHE_SWEEP_SIZE;
+
+	// Drop entries past their stale window, so keys that are never read again don't pile up
+	const sweep = (now: number) => {
+		if (ttl === undefined) return;
+		for (const [key, entry] of cache) {
+			if (now - entry.timestamp >= ttl + staleWhileRevalidate)
+				cache.delete(key);
+		}
+		sweepAt = Math.max(MIN_CACHE_SWEEP_SIZE, cache.size * 2);
+	};
 
-	return (async (...args: Parameters<T>): Promise<ReturnType<T>> => {
+	const store = (key: string, value: ReturnType<T>) => {
+		const now = Date.now();
+		cache.delete(key);
+		cache.set(key, { value, timestamp: now });
+
+		if (maxSize !== undefined && cache.size > maxSize) {
+			const oldestKey = cache.keys().next().value;
+			if (oldestKey !== undefined) cache.delete(oldestKey);
+		}
+		if (cache.size >= sweepAt) sweep(now);
+	};
+
+	const load = (key: string, args: Parameters<T>): Promise<ReturnType<T>> => {
+		const pending = inFlight.get(key);
+		if (pending) return pending;
+
+		const promise: Promise<ReturnType<T>> = (async () => fn(...args))().then(
+			(value) => {
+				if (
+					inFlight.get(key) === promise &&
+					(cacheFailures || !isFailureResult(value))
+				) {
+					store(key, value);
+				}
+				return value;
+			},
+		);
+
+		const settle = () => {
+			if (inFlight.get(key) === promise) inFlight.delete(key);
+		};
+
+		promise.then(settle, settle);
+		inFlight.set(key, promise);
+		return promise;
+	};
+
+	const memoized = async (...args: Parameters<T>): Promise<ReturnType<T>> => {
 		const key = keyGenerator(...args);
 		const cached = cache.get(key);
 
 		if (cached) {
-			if (!ttl || Date.now() - cached.timestamp < ttl) {
+			const age = Date.now() - cached.timestamp;
+
+			if (ttl === undefined || age < ttl + staleWhileRevalidate) {
+				cache.delete(key);
+				cache.set(key, cached);
+
+				if (ttl !== undefined && age >= ttl) {
+					load(key, args).catch(() => {});
+				}
 				return cached.value;
 			}
 			cache.delete(key);
 		}
 
-		const value = await fn(...args);
-		cache.set(key, { value, timestamp: Date.now() });
+		return load(key, args);
+	};
 
-		return value;
-	}) as T;
+	return Object.assign(memoized as T, {
+		clear: () => {
+			cache.clear();
+			inFlight.clear();
+		},
+		delete: (key: string) => {
+			inFlight.delete(key);
+			return cache.delete(key);
+		},
+	});
 }
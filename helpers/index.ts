@@ -1,5 +1,7 @@
 export * from "./array.helper";
 export * from "./async.helper";
 export * from "./object.helper";
+export * from "./pagination.helper";
+export * from "./rate-limit.helper";
 export * from "./string.helper";
 export * from "./zod.helper";
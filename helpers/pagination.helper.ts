@@ -0,0 +1,231 @@
+import {
+	type CursorPaginationRequest,
+	type CursorPaginationResponse,
+	createCursorPaginationResponse,
+	createPaginationResponse,
+	type PaginationRequest,
+	type PaginationResponse,
+} from "../models";
+import type { FilterCondition, SortSpec } from "../schemas";
+import { chunk, take, takeLast } from "./array.helper";
+
+/**
+ * Sort and filter specs to apply to an in-memory array, usually parsed with `listQuerySchema`
+ */
+export type ArrayQueryOptions<T> = {
+	/** Sort specs applied in order of priority (default: keep the input order) */
+	sort?: readonly SortSpec<keyof T & string>[];
+	/** Conditions every item must match (default: keep all items) */
+	filter?: readonly FilterCondition<keyof T & string>[];
+};
+
+function getField<T>(item: T, field: string): unknown {
+	return (item as Record<string, unknown>)[field];
+}
+
+function toComparable(value: unknown): unknown {
+	return value instanceof Date ? value.getTime() : value;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+	return toComparable(a) === toComparable(b);
+}
+
+/**
+ * Compare two values the way PostgreSQL orders them: numbers, strings and Dates
+ * by value, with null and undefined after every other value (so first when descending)
+ */
+function compareValues(a: unknown, b: unknown): number {
+	const left = toComparable(a);
+	const right = toComparable(b);
+
+	if (left === right) return 0;
+	if (left === null || left === undefined) return 1;
+	if (right === null || right === undefined) return -1;
+	return (left as number) < (right as number) ? -1 : 1;
+}
+
+function matchesCondition<T>(
+	item: T,
+	condition: FilterCondition<keyof T & string>,
+): boolean {
+	const value = getField(item, condition.field);
+
+	switch (condition.operator) {
+		case "eq":
+			return isEqual(value, condition.value);
+		case "ne":
+			return !isEqual(value, condition.value);
+		case "in":
+			return condition.value.some((option) => isEqual(value, option));
+		case "contains":
+			if (Array.isArray(value)) {
+				return value.some((element) => isEqual(element, condition.value));
+			}
+			return (
+				typeof value === "string" &&
+				value.toLowerCase().includes(String(condition.value).toLowerCase())
+			);
+	}
+
+	if (value === null || value === undefined) return false;
+
+	switch (condition.operator) {
+		case "gt":
+			return compareValues(value, condition.value) > 0;
+		case "gte":
+			return compareValues(value, condition.value) >= 0;
+		case "lt":
+			return compareValues(value, condition.value) < 0;
+		case "lte":
+			return compareValues(value, condition.value) <= 0;
+		case "between":
+			return (
+				compareValues(value, condition.value[0]) >= 0 &&
+				compareValues(value, condition.value[1]) <= 0
+			);
+	}
+}
+
+/**
+ * Keep the items matching every filter condition
+ * @param array - The array to filter
+ * @param conditions - Filter conditions, e.g. `filter` from `listQuerySchema`
+ * @returns New array with the matching items
+ * @example filterArray(orders, [{ field: "total", operator: "gte", value: 10 }])
+ */
+export function filterArray<T>(
+	array: T[],
+	conditions: readonly FilterCondition<keyof T & string>[],
+): T[] {
+	return array.filter((item) =>
+		conditions.every((condition) => matchesCondition(item, condition)),
+	);
+}
+
+/**
+ * Sort an array by one or more fields
+ * @param array - The array to sort
+ * @param specs - Sort specs in order of priority, e.g. `sort` from `listQuerySchema`
+ * @returns New sorted array; items with equal keys keep their input order
+ * @example sortArray(orders, [{ field: "createdAt", direction: "desc" }, { field: "id", direction: "asc" }])
+ */
+export function sortArray<T>(
+	array: T[],
+	specs: readonly SortSpec<keyof T & string>[],
+): T[] {
+	if (specs.length === 0) return [...array];
+
+	return [...array].sort((a, b) => {
+		for (const { field, direction } of specs) {
+			const order = compareValues(getField(a, field), getField(b, field));
+			if (order !== 0) return direction === "asc" ? order : -order;
+		}
+		return 0;
+	});
+}
+
+/**
+ * Apply filters, then sort, to an in-memory array
+ * @param array - The array to query
+ * @param options - Sort and filter specs
+ * @returns New array with the matching items in sorted order
+ */
+export function queryArray<T>(array: T[], options: ArrayQueryOptions<T> = {}) {
+	const { sort = [], filter = [] } = options;
+	return sortArray(filterArray(array, filter), sort);
+}
+
+/**
+ * Apply an offset pagination request to an in-memory array, optionally sorting and filtering it first
+ * @param array - All items
+ * @param request - Page and page size, e.g. parsed with `paginationRequestSchema`
+ * @param options - Sort and filter specs applied before paging
+ * @returns The same response `createPaginationResponse` builds for a database-backed list
+ * @example
+ * const { page, pageSize } = paginationRequestSchema.parse(query);
+ * const { sort, filter } = listOrdersQuerySchema.parse(query);
+ * return ok(paginateArray(fixtures.orders, { page, pageSize }, { sort, filter }));
+ *
+ * @remarks
+ * **⚠️ Pitfalls & Safety**:
+ * - Filters and sorts the whole array on every call; meant for tests, mock servers and small lists
+ * - `contains` is case-insensitive on strings and an element match on arrays
+ */
+export function paginateArray<T>(
+	array: T[],
+	request: PaginationRequest,
+	options: ArrayQueryOptions<T> = {},
+): PaginationResponse<T> {
+	const { page, pageSize } = request;
+	const matching = queryArray(array, options);
+
+	return createPaginationResponse({
+		page,
+		pageSize,
+		totalItems: matching.length,
+		items: chunk(matching, pageSize)[page - 1] ?? [],
+	});
+}
+
+/**
+ * Options for paginateArrayByCursor function
+ */
+export type PaginateArrayByCursorOptions<T> = ArrayQueryOptions<T> & {
+	/** Build the cursor pointing at an item; the request's cursors are matched against it */
+	getCursor: (item: T) => string;
+};
+
+/**
+ * Apply a cursor pagination request to an in-memory array, optionally sorting and filtering it first.
+ * Items are fetched with the same "limit + 1" pattern as a keyset query, so the response matches
+ * what `createCursorPaginationResponse` builds for a database-backed list.
+ * @param array - All items
+ * @param request - Limit and `after`/`before` cursors, e.g. parsed with `cursorPaginationRequestSchema`
+ * @param options - Cursor builder, and sort and filter specs applied before paging
+ * @returns Cursor page with at most `limit` items; a cursor matching no item yields an empty page
+ * @example
+ * const { limit, after, before } = cursorPaginationRequestSchema.parse(query);
+ * return ok(paginateArrayByCursor(fixtures.orders, { limit, after, before }, { getCursor: (order) => order.id }));
+ *
+ * @remarks
+ * **⚠️ Pitfalls & Safety**:
+ * - Cursors are looked up by position, so the list must be sorted by a unique key for pages to be stable
+ * - The legacy `cursor` field is treated as `after`
+ */
+export function paginateArrayByCursor<T>(
+	array: T[],
+	request: Pick<CursorPaginationRequest, "limit"> &
+		Partial<Pick<CursorPaginationRequest, "cursor" | "after" | "before">>,
+	options: PaginateArrayByCursorOptions<T>,
+): CursorPaginationResponse<T> {
+	const { limit, before } = request;
+	const after = request.after ?? request.cursor;
+	const { getCursor } = options;
+
+	const matching = queryArray(array, options);
+	const indexOf = (cursor: string) =>
+		matching.findIndex((item) => getCursor(item) === cursor);
+
+	let fetched: T[];
+	if (before !== undefined) {
+		const index = indexOf(before);
+		fetched =
+			index === -1
+				? []
+				: takeLast(matching.slice(0, index), limit + 1).reverse();
+	} else if (after !== undefined) {
+		const index = indexOf(after);
+		fetched = index === -1 ? [] : take(matching.slice(index + 1), limit + 1);
+	} else {
+		fetched = take(matching, limit + 1);
+	}
+
+	return createCursorPaginationResponse({
+		limit,
+		items: fetched,
+		getCursor,
+		after,
+		before,
+	});
+}
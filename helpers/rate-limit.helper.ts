@@ -0,0 +1,381 @@
+import { CommonErrors } from "../errors";
+import {
+	AsyncResult,
+	type FailureResult,
+	failure,
+	isFailureResult,
+	ok,
+} from "../models";
+
+/**
+ * Storage backend for rate limiter state. The in-memory store is the default;
+ * implement this interface to share limits across processes (e.g. with Redis).
+ */
+export type RateLimitStore = {
+	/**
+	 * Atomically read and replace the state stored under a key. Concurrent updates of the same key
+	 * must not interleave: run `updater` inside a lock, a Lua script or an optimistic
+	 * (WATCH/compare-and-set) retry loop. `updater` is pure and may be called more than once.
+	 * @param key - Key of the state
+	 * @param updater - Receives the current state (undefined if missing or expired) and returns
+	 * the next state with its TTL in milliseconds, or undefined to leave the stored state unchanged
+	 */
+	update<S>(
+		key: string,
+		updater: (state: S | undefined) => RateLimitStoreEntry<S> | undefined,
+	): Promise<void>;
+	/** Remove the state stored under a key */
+	delete(key: string): Promise<void>;
+};
+
+export type RateLimitStoreEntry<S> = {
+	state: S;
+	/** Milliseconds until the state expires */
+	ttlMs: number;
+};
+
+/**
+ * Quota information returned by a rate limiter
+ */
+export type RateLimitInfo = {
+	/** Maximum number of requests allowed */
+	limit: number;
+	/** Requests still allowed right now */
+	remaining: number;
+	/** Milliseconds to wait before the request can succeed (0 when allowed) */
+	retryAfterMs: number;
+	/** Milliseconds until the quota is fully restored */
+	resetAfterMs: number;
+};
+
+export type RateLimitExceededFailure = FailureResult<
+	typeof CommonErrors.RateLimitExceeded
+> & {
+	metadata: RateLimitInfo;
+};
+
+/**
+ * Check if a value is a rate limit failure produced by a rate limiter
+ * @param value - The value to check
+ * @returns True if value is a `common.rate_limit_exceeded` failure carrying quota metadata
+ * @example
+ * if (isRateLimitExceeded(result)) {
+ *   res.setHeader("Retry-After", Math.ceil(result.metadata.retryAfterMs / 1000));
+ * }
+ */
+export function isRateLimitExceeded(
+	value: unknown,
+): value is RateLimitExceededFailure {
+	return (
+		isFailureResult(value) &&
+		value.code === CommonErrors.RateLimitExceeded.code &&
+		typeof value.metadata?.retryAfterMs === "number"
+	);
+}
+
+export type RateLimiter = {
+	/**
+	 * Consume quota for a key
+	 * @param key - Identifier to limit (user id, IP address, API key, ...)
+	 * @param cost - Quota units to consume (default: 1)
+	 * @returns AsyncResult with the remaining quota, or a `common.rate_limit_exceeded` failure
+	 * whose metadata carries the quota and `retryAfterMs`. A rejected request consumes nothing.
+	 */
+	consume: (
+		key: string,
+		cost?: number,
+	) => AsyncResult<RateLimitInfo, typeof CommonErrors.RateLimitExceeded>;
+	/** Clear the recorded usage of a key */
+	reset: (key: string) => Promise<void>;
+};
+
+type RateLimitDecision<S> = {
+	/** Whether the request is allowed */
+	allowed: boolean;
+	/** State to store; only written when the request is allowed */
+	state: S;
+	/** How long the stored state stays relevant */
+	ttlMs: number;
+	info: RateLimitInfo;
+};
+
+const MIN_SWEEP_SIZE = 1000;
+
+/**
+ * Create an in-memory rate limit store. Updates run synchronously, so concurrent
+ * consumes of the same key never interleave.
+ * @returns Rate limit store backed by a Map
+ * @example
+ * const limiter = createFixedWindowLimiter({ limit: 100, windowMs: 60000, store: createMemoryRateLimitStore() });
+ *
+ * @remarks
+ * **⚠️ Pitfalls & Safety**:
+ * - State is per process: behind a load balancer each instance enforces its own limit
+ * - Expired entries are swept whenever the map doubles in size, so memory follows the number of active keys
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+	const entries = new Map<string, { state: unknown; expiresAt: number }>();
+	let sweepAt = MIN_SWEEP_SIZE;
+
+	const sweep = (now: number) => {
+		for (const [key, entry] of entries) {
+			if (now >= entry.expiresAt) entries.delete(key);
+		}
+		sweepAt = Math.max(MIN_SWEEP_SIZE, entries.size * 2);
+	};
+
+	return {
+		async update<S>(
+			key: string,
+			updater: (state: S | undefined) => RateLimitStoreEntry<S> | undefined,
+		): Promise<void> {
+			const now = Date.now();
+			const entry = entries.get(key);
+			const current =
+				entry && now < entry.expiresAt ? (entry.state as S) : undefined;
+
+			const next = updater(current);
+			if (!next) return;
+
+			entries.set(key, { state: next.state, expiresAt: now + next.ttlMs });
+			if (entries.size >= sweepAt) sweep(now);
+		},
+		async delete(key: string): Promise<void> {
+			entries.delete(key);
+		},
+	};
+}
+
+function createRateLimiter<S>(
+	prefix: string,
+	store: RateLimitStore,
+	decide: (
+		state: S | undefined,
+		now: number,
+		cost: number,
+	) => RateLimitDecision<S>,
+): RateLimiter {
+	return {
+		consume: (key, cost = 1) =>
+			new AsyncResult(
+				(async () => {
+					let decision: RateLimitDecision<S> | undefined;
+					await store.update<S>(`${prefix}${key}`, (state) => {
+						decision = decide(state, Date.now(), cost);
+						return decision.allowed
+							? { state: decision.state, ttlMs: decision.ttlMs }
+							: undefined;
+					});
+
+					if (!decision) {
+						throw new Error("RateLimitStore.update did not call the updater");
+					}
+					if (!decision.allowed) {
+						const exceeded: RateLimitExceededFailure = {
+							...failure(CommonErrors.RateLimitExceeded),
+							metadata: decision.info,
+						};
+						return exceeded;
+					}
+					return ok(decision.info);
+				})(),
+			),
+		reset: (key) => store.delete(`${prefix}${key}`),
+	};
+}
+
+/**
+ * Options shared by all rate limiters
+ */
+export type RateLimiterOptions = {
+	/** Store holding the limiter state (default: a new in-memory store) */
+	store?: RateLimitStore;
+	/** Prefix added to every key in the store (default: "rate-limit:<algorithm>:") */
+	prefix?: string;
+};
+
+/**
+ * Options for createTokenBucketLimiter function
+ */
+export type TokenBucketLimiterOptions = RateLimiterOptions & {
+	/** Maximum number of tokens, i.e. the allowed burst size */
+	capacity: number;
+	/** Tokens added back every `interval` */
+	refillRate: number;
+	/** Refill interval in milliseconds (default: 1000) */
+	interval?: number;
+};
+
+type TokenBucketState = { tokens: number; updatedAt: number };
+
+/**
+ * Create a token bucket rate limiter: allows bursts up to `capacity`, then a steady `refillRate` per `interval`
+ * @param options - Bucket capacity, refill rate, interval and store
+ * @returns Rate limiter with `consume` and `reset`
+ * @example
+ * const limiter = createTokenBucketLimiter({ capacity: 10, refillRate: 1 }); // burst of 10, then 1 req/s
+ *
+ * const result = await limiter.consume(userId);
+ * if (isRateLimitExceeded(result)) {
+ *   res.setHeader('Retry-After', Math.ceil(result.metadata.retryAfterMs / 1000));
+ *   return res.status(result.statusCode).json(toFailureResponseStruct(result));
+ * }
+ */
+export function createTokenBucketLimiter(
+	options: TokenBucketLimiterOptions,
+): RateLimiter {
+	const {
+		capacity,
+		refillRate,
+		interval = 1000,
+		store = createMemoryRateLimitStore(),
+		prefix = "rate-limit:token-bucket:",
+	} = options;
+
+	const msPerToken = interval / refillRate;
+
+	return createRateLimiter<TokenBucketState>(
+		prefix,
+		store,
+		(state, now, cost) => {
+			const elapsed = state ? now - state.updatedAt : 0;
+			const available = state
+				? Math.min(capacity, state.tokens + elapsed / msPerToken)
+				: capacity;
+
+			const allowed = available >= cost;
+			const tokens = allowed ? available - cost : available;
+
+			return {
+				allowed,
+				state: { tokens, updatedAt: now },
+				ttlMs: Math.ceil((capacity - tokens) * msPerToken),
+				info: {
+					limit: capacity,
+					remaining: Math.floor(tokens),
+					retryAfterMs: allowed ? 0 : Math.ceil((cost - tokens) * msPerToken),
+					resetAfterMs: Math.ceil((capacity - tokens) * msPerToken),
+				},
+			};
+		},
+	);
+}
+
+/**
+ * Options for window-based rate limiters
+ */
+export type WindowLimiterOptions = RateLimiterOptions & {
+	/** Maximum number of requests per window */
+	limit: number;
+	/** Window length in milliseconds */
+	windowMs: number;
+};
+
+type FixedWindowState = { count: number; windowStart: number };
+
+/**
+ * Create a fixed window rate limiter: allows `limit` requests per clock-aligned window of `windowMs`
+ * @param options - Limit, window length and store
+ * @returns Rate limiter with `consume` and `reset`
+ * @example
+ * const limiter = createFixedWindowLimiter({ limit: 100, windowMs: 60000 }); // 100 req/min
+ * const result = await limiter.consume(req.ip);
+ *
+ * @remarks
+ * **⚠️ Pitfalls & Safety**:
+ * - Allows up to 2x `limit` around a window boundary; use the sliding window limiter when that matters
+ */
+export function createFixedWindowLimiter(
+	options: WindowLimiterOptions,
+): RateLimiter {
+	const {
+		limit,
+		windowMs,
+		store = createMemoryRateLimitStore(),
+		prefix = "rate-limit:fixed-window:",
+	} = options;
+
+	return createRateLimiter<FixedWindowState>(
+		prefix,
+		store,
+		(state, now, cost) => {
+			const windowStart = Math.floor(now / windowMs) * windowMs;
+			const used = state?.windowStart === windowStart ? state.count : 0;
+			const resetAfterMs = windowStart + windowMs - now;
+
+			const allowed = used + cost <= limit;
+			const count = allowed ? used + cost : used;
+
+			return {
+				allowed,
+				state: { count, windowStart },
+				ttlMs: resetAfterMs,
+				info: {
+					limit,
+					remaining: Math.max(0, limit - count),
+					retryAfterMs: allowed ? 0 : resetAfterMs,
+					resetAfterMs,
+				},
+			};
+		},
+	);
+}
+
+type SlidingWindowState = { timestamps: number[] };
+
+/**
+ * Create a sliding window log rate limiter: allows `limit` requests in any `windowMs` period
+ * @param options - Limit, window length and store
+ * @returns Rate limiter with `consume` and `reset`
+ * @example
+ * const limiter = createSlidingWindowLimiter({ limit: 5, windowMs: 15 * 60000 }); // 5 login attempts per 15 min
+ * const result = await limiter.consume(`login:${email}`);
+ *
+ * @remarks
+ * **⚠️ Pitfalls & Safety**:
+ * - Stores one timestamp per request, so memory grows with `limit`; prefer the token bucket for large limits
+ */
+export function createSlidingWindowLimiter(
+	options: WindowLimiterOptions,
+): RateLimiter {
+	const {
+		limit,
+		windowMs,
+		store = createMemoryRateLimitStore(),
+		prefix = "rate-limit:sliding-window:",
+	} = options;
+
+	return createRateLimiter<SlidingWindowState>(
+		prefix,
+		store,
+		(state, now, cost) => {
+			const recent = (state?.timestamps ?? []).filter(
+				(timestamp) => timestamp > now - windowMs,
+			);
+
+			const allowed = recent.length + cost <= limit;
+			const timestamps = allowed
+				? [...recent, ...new Array<number>(cost).fill(now)]
+				: recent;
+
+			const expiresIn = (index: number) =>
+				(timestamps[index] ?? now) + windowMs - now;
+
+			return {
+				allowed,
+				state: { timestamps },
+				ttlMs: windowMs,
+				info: {
+					limit,
+					remaining: Math.max(0, limit - timestamps.length),
+					retryAfterMs: allowed
+						? 0
+						: expiresIn(timestamps.length + cost - limit - 1),
+					resetAfterMs: timestamps.length
+						? expiresIn(timestamps.length - 1)
+						: 0,
+				},
+			};
+		},
+	);
+}
@@ -220,6 +220,16 @@ export function snakeCase(str: string): string {
 		.replace(/^_+|_+$/g, "");
 }
 
+/**
+ * Type-level equivalent of {@link snakeCase} for camelCase and PascalCase string literals
+ * @example SnakeCase<"CredentialsNotFound"> = "credentials_not_found"
+ */
+export type SnakeCase<S extends string> = SnakeCaseChars<Uncapitalize<S>>;
+
+type SnakeCaseChars<S extends string> = S extends `${infer C}${infer Rest}`
+	? `${C extends Lowercase<C> ? C : `_${Lowercase<C>}`}${SnakeCaseChars<Rest>}`
+	: S;
+
 /**
  * Convert a string to kebab-case
  *
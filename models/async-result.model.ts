@@ -0,0 +1,181 @@
+import { CommonErrors } from "../errors";
+import type { ErrorModel } from "./error.model";
+import {
+	type FailureResult,
+	failure,
+	isFailureResult,
+	type MatchResultHandlers,
+	ok,
+	type Result,
+	type SuccessResult,
+	unwrap,
+} from "./result.model";
+
+type MaybePromise<T> = T | PromiseLike<T>;
+
+/**
+ * Awaitable wrapper around `Promise<Result<T>>` exposing the same combinators as synchronous results.
+ * Awaiting an `AsyncResult<T>` yields a plain `Result<T>`.
+ * @example
+ * const name = await fromPromise(fetchUser(id))
+ *   .andThen((user) => validateUser(user))
+ *   .map((user) => user.name)
+ *   .unwrapOr("anonymous");
+ */
+export class AsyncResult<T = void, E extends ErrorModel = ErrorModel>
+	implements PromiseLike<Result<T, E>>
+{
+	private readonly promise: Promise<Result<T, E>>;
+
+	constructor(result: MaybePromise<Result<T, E>>) {
+		this.promise = Promise.resolve(result);
+	}
+
+	// biome-ignore lint/suspicious/noThenProperty: AsyncResult is intentionally awaitable
+	then<TResult1 = Result<T, E>, TResult2 = never>(
+		onfulfilled?:
+			| ((value: Result<T, E>) => TResult1 | PromiseLike<TResult1>)
+			| null,
+		onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+	): Promise<TResult1 | TResult2> {
+		return this.promise.then(onfulfilled, onrejected);
+	}
+
+	map<U>(fn: (data: T) => MaybePromise<U>): AsyncResult<U, E> {
+		return new AsyncResult(
+			this.promise.then(async (result): Promise<Result<U, E>> => {
+				if (isFailureResult(result)) return result;
+				return ok(await fn(unwrap(result))) as SuccessResult<U>;
+			}),
+		);
+	}
+
+	flatMap<U, F extends ErrorModel = never>(
+		fn: (data: T) => MaybePromise<Result<U, F>>,
+	): AsyncResult<U, E | F> {
+		return new AsyncResult(
+			this.promise.then((result): MaybePromise<Result<U, E | F>> => {
+				if (isFailureResult(result)) return result;
+				return fn(unwrap(result));
+			}),
+		);
+	}
+
+	andThen<U, F extends ErrorModel = never>(
+		fn: (data: T) => MaybePromise<Result<U, F>>,
+	): AsyncResult<U, E | F> {
+		return this.flatMap(fn);
+	}
+
+	mapError<F extends ErrorModel>(
+		fn: (error: FailureResult<E>) => MaybePromise<FailureResult<F>>,
+	): AsyncResult<T, F> {
+		return new AsyncResult(
+			this.promise.then((result): MaybePromise<Result<T, F>> => {
+				if (isFailureResult(result)) return fn(result);
+				return result;
+			}),
+		);
+	}
+
+	orElse<F extends ErrorModel = never>(
+		fn: (error: FailureResult<E>) => MaybePromise<Result<T, F>>,
+	): AsyncResult<T, F> {
+		return new AsyncResult(
+			this.promise.then((result): MaybePromise<Result<T, F>> => {
+				if (isFailureResult(result)) return fn(result);
+				return result;
+			}),
+		);
+	}
+
+	tap(fn: (data: T) => MaybePromise<void>): AsyncResult<T, E> {
+		return new AsyncResult(
+			this.promise.then(async (result) => {
+				if (!isFailureResult(result)) await fn(unwrap(result));
+				return result;
+			}),
+		);
+	}
+
+	tapError(
+		fn: (error: FailureResult<E>) => MaybePromise<void>,
+	): AsyncResult<T, E> {
+		return new AsyncResult(
+			this.promise.then(async (result) => {
+				if (isFailureResult(result)) await fn(result);
+				return result;
+			}),
+		);
+	}
+
+	async match<U>(
+		handlers: MatchResultHandlers<T, MaybePromise<U>, E>,
+	): Promise<U> {
+		const result = await this.promise;
+		if (isFailureResult(result)) return handlers.failure(result);
+		return handlers.success(unwrap(result));
+	}
+
+	async unwrap(): Promise<T> {
+		return unwrap(await this.promise);
+	}
+
+	async unwrapOr<D = T>(defaultValue: D): Promise<T | D> {
+		const result = await this.promise;
+		if (isFailureResult(result)) return defaultValue;
+		return unwrap(result);
+	}
+}
+
+/**
+ * Creates an already-resolved successful AsyncResult
+ * @example okAsync(user) // AsyncResult<User>
+ */
+export function okAsync(): AsyncResult<void, never>;
+export function okAsync<T>(data: T): AsyncResult<T, never>;
+export function okAsync<T>(
+	data?: T,
+): AsyncResult<T, never> | AsyncResult<void, never> {
+	return new AsyncResult(ok(data) as SuccessResult<T>);
+}
+
+/**
+ * Creates an already-resolved failed AsyncResult
+ * @example failureAsync(AuthErrors.Unauthorized)
+ */
+export function failureAsync<T = never, E extends ErrorModel = ErrorModel>(
+	error: E,
+	fieldErrors?: Record<string, string[]>,
+): AsyncResult<T, E> {
+	return new AsyncResult<T, E>(failure(error, fieldErrors));
+}
+
+/**
+ * Wraps a promise into an AsyncResult, converting rejections into a FailureResult
+ * @param promise - The promise to wrap
+ * @param mapError - Maps the rejection reason to a failure (default: `CommonErrors.UnhandledError` with the reason in `metadata.cause`)
+ * @returns AsyncResult resolving to `ok(value)` or the mapped failure
+ * @example fromPromise(db.users.findOne({ id }), () => failure(AuthErrors.CredentialsNotFound))
+ */
+export function fromPromise<T>(
+	promise: PromiseLike<T>,
+): AsyncResult<T, typeof CommonErrors.UnhandledError>;
+export function fromPromise<T, E extends ErrorModel>(
+	promise: PromiseLike<T>,
+	mapError: (error: unknown) => FailureResult<E>,
+): AsyncResult<T, E>;
+export function fromPromise<T>(
+	promise: PromiseLike<T>,
+	mapError: (error: unknown) => FailureResult = (error) => ({
+		...failure(CommonErrors.UnhandledError),
+		metadata: { cause: error },
+	}),
+): AsyncResult<T> {
+	return new AsyncResult(
+		Promise.resolve(promise).then(
+			(data): Result<T> => ok(data),
+			(error) => mapError(error),
+		),
+	);
+}
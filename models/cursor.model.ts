@@ -0,0 +1,149 @@
+import z from "zod";
+import type { CommonErrors } from "../errors";
+import {
+	ok,
+	type Result,
+	type SuccessResult,
+	validationError,
+} from "./result.model";
+
+export type CursorOptions = {
+	/**
+	 * Sign a cursor payload, e.g. with an HMAC from the platform's crypto. Must return a URL-safe
+	 * string without dots (base64url or hex); cursors whose signature does not match are rejected
+	 * @example (payload) => createHmac("sha256", secret).update(payload).digest("base64url")
+	 */
+	sign?: (payload: string) => string;
+};
+
+const INVALID_CURSOR_MESSAGE = "Invalid cursor";
+
+function toBase64Url(bytes: Uint8Array): string {
+	let binary = "";
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary)
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+	const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+	const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+	return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+	if (a.length !== b.length) return false;
+
+	let difference = 0;
+	for (let i = 0; i < a.length; i++) {
+		difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+	}
+	return difference === 0;
+}
+
+function parseCursor<S extends z.ZodType>(
+	schema: S,
+	cursor: string,
+	options: CursorOptions,
+): z.ZodSafeParseResult<z.output<S>> | undefined {
+	const [payload, signature, ...rest] = cursor.split(".");
+	if (!payload || rest.length > 0) return undefined;
+
+	if (options.sign !== undefined) {
+		const expected = options.sign(payload);
+		if (!signature || !constantTimeEqual(signature, expected)) return undefined;
+	} else if (signature !== undefined) {
+		return undefined;
+	}
+
+	let values: unknown;
+	try {
+		values = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+	} catch {
+		return undefined;
+	}
+
+	return schema.safeParse(values);
+}
+
+/**
+ * Encode a keyset position into a URL-safe opaque cursor
+ * @param schema - Zod schema of the keyset; codecs such as `zodIsoDatetimeSchema` encode Dates as ISO strings
+ * @param values - The keyset values, usually taken from the last item of a page
+ * @param options - Function used to sign the cursor (optional)
+ * @returns Base64url cursor, followed by `.signature` when signed
+ * @example
+ * const keyset = z.object({ createdAt: zodIsoDatetimeSchema, id: z.string() });
+ * const sign = (payload: string) => createHmac("sha256", secret).update(payload).digest("base64url");
+ * const nextCursor = encodeCursor(keyset, { createdAt: last.createdAt, id: last.id }, { sign });
+ */
+export function encodeCursor<S extends z.ZodType>(
+	schema: S,
+	values: z.output<S>,
+	options: CursorOptions = {},
+): string {
+	const json = JSON.stringify(z.encode(schema, values));
+	const payload = toBase64Url(new TextEncoder().encode(json));
+
+	if (options.sign === undefined) return payload;
+	return `${payload}.${options.sign(payload)}`;
+}
+
+/**
+ * Decode and validate a cursor created with {@link encodeCursor}
+ * @param schema - Zod schema of the keyset, the same one used to encode
+ * @param cursor - The cursor from the request
+ * @param options - Function the cursor was signed with (optional)
+ * @returns Success with the typed keyset values, or a validation failure on the `cursor` field
+ * for malformed, tampered or mismatching cursors
+ * @example
+ * const position = decodeCursor(keyset, query.cursor, { sign });
+ * if (isFailureResult(position)) return position;
+ */
+export function decodeCursor<S extends z.ZodType>(
+	schema: S,
+	cursor: string,
+	options: CursorOptions = {},
+): Result<z.output<S>, typeof CommonErrors.ValidationError> {
+	const decoded = parseCursor(schema, cursor, options);
+
+	if (!decoded?.success) {
+		return validationError({ cursor: [INVALID_CURSOR_MESSAGE] });
+	}
+
+	return ok(decoded.data) as SuccessResult<z.output<S>>;
+}
+
+/**
+ * Zod schema that validates a cursor string and decodes it into typed keyset values.
+ * Parsing errors are reported on the cursor field, so `validationError(parsed.error)` works as usual.
+ * @param schema - Zod schema of the keyset
+ * @param options - Function the cursor was signed with (optional)
+ * @returns Zod schema transforming a cursor string into the keyset values
+ * @example
+ * const listOrdersSchema = cursorPaginationRequestSchema.extend({
+ *   cursor: cursorSchema(keyset, { sign }).optional(),
+ * });
+ *
+ * const parsed = listOrdersSchema.safeParse(req.query);
+ * if (!parsed.success) return validationError(parsed.error); // fieldErrors: { cursor: ["Invalid cursor"] }
+ * parsed.data.cursor; // { createdAt: Date; id: string } | undefined
+ */
+export function cursorSchema<S extends z.ZodType>(
+	schema: S,
+	options: CursorOptions = {},
+) {
+	return z.string().transform((cursor, ctx): z.output<S> => {
+		const decoded = parseCursor(schema, cursor, options);
+
+		if (!decoded?.success) {
+			ctx.addIssue({ code: "custom", message: INVALID_CURSOR_MESSAGE });
+			return z.NEVER;
+		}
+		return decoded.data;
+	});
+}
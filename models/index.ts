@@ -1,3 +1,6 @@
+export * from "./async-result.model";
+export * from "./cursor.model";
 export * from "./error.model";
 export * from "./pagination.model";
 export * from "./result.model";
+export * from "./safe-try.model";
@@ -3,6 +3,8 @@ import z, { type ZodNumber, type ZodObject, type ZodString } from "zod";
 export const cursorPaginationRequestSchema = z.object({
 	limit: z.int().positive().max(100).default(10),
 	cursor: z.string().optional(),
+	after: z.string().optional(),
+	before: z.string().optional(),
 });
 
 export const cursorPaginationResponseSchema = (
@@ -10,7 +12,10 @@ export const cursorPaginationResponseSchema = (
 ) =>
 	z.object({
 		nextCursor: z.string().nullable(),
+		prevCursor: z.string().nullable(),
 		items: z.array(zodObject),
+		hasNextPage: z.boolean(),
+		hasPreviousPage: z.boolean(),
 		maybeHasNextPage: z.boolean(),
 	});
 
@@ -20,22 +25,92 @@ export type CursorPaginationRequest = z.infer<
 
 export type CursorPaginationResponse<T> = {
 	nextCursor: string | null;
+	prevCursor: string | null;
 	items: T[];
+	hasNextPage: boolean;
+	hasPreviousPage: boolean;
+	/** @deprecated Use `hasNextPage` */
 	maybeHasNextPage: boolean;
 };
 
-export type CreateCursorPaginationResponseArgs<T> = {
-	limit: number;
-	items: T[];
-	nextCursor: string | null;
-};
+export type CreateCursorPaginationResponseArgs<T> =
+	| {
+			/** Requested page size */
+			limit: number;
+			/** Items fetched with `limit + 1`, in query order; `before` pages are queried in reverse */
+			items: T[];
+			/** Build the cursor pointing at an item */
+			getCursor: (item: T) => string;
+			/** The request's `after` cursor, raw or decoded */
+			after?: unknown;
+			/** The request's `before` cursor, raw or decoded; takes precedence over `after` */
+			before?: unknown;
+			/** The request's legacy `cursor`, treated as `after` */
+			cursor?: unknown;
+	  }
+	| {
+			limit: number;
+			items: T[];
+			/** @deprecated Pass `getCursor` and fetch `limit + 1` items instead */
+			nextCursor: string | null;
+	  };
 
+/**
+ * Create a cursor pagination response using the "fetch limit + 1" pattern
+ * - Forward (`after`, the legacy `cursor` or no cursor): query `key > after` ascending; the extra item proves `hasNextPage`
+ * - Backward (`before`): query `key < before` descending; the extra item proves `hasPreviousPage`
+ *   and the items are reversed back into ascending order
+ * @param args - Limit, fetched items, cursor builder and the request's cursors
+ * @returns Response with at most `limit` items and cursors for both directions
+ * @example
+ * const { limit, after, before } = cursorPaginationRequestSchema.parse(query);
+ * const rows = await db.orders.findMany({
+ *   where: before ? { id: { lt: before } } : after ? { id: { gt: after } } : {},
+ *   orderBy: { id: before ? "desc" : "asc" },
+ *   take: limit + 1,
+ * });
+ *
+ * return createCursorPaginationResponse({ limit, items: rows, getCursor: (row) => row.id, after, before });
+ */
 export function createCursorPaginationResponse<T>(
 	args: CreateCursorPaginationResponseArgs<T>,
-) {
+): CursorPaginationResponse<T> {
+	if (!("getCursor" in args)) {
+		const maybeHasNextPage = args.items.length === args.limit;
+		return {
+			...args,
+			prevCursor: null,
+			hasNextPage: maybeHasNextPage,
+			hasPreviousPage: false,
+			maybeHasNextPage,
+		};
+	}
+
+	const { limit, getCursor, before } = args;
+	const after = args.after ?? args.cursor;
+	const isBackward = before !== undefined && before !== null;
+	const hasMore = args.items.length > limit;
+
+	const page = args.items.slice(0, limit);
+	const items = isBackward ? page.reverse() : page;
+
+	// An empty page has no item to build a cursor from, so it reports no pages either way
+	const hasNextPage = isBackward ? items.length > 0 : hasMore;
+	const hasPreviousPage = isBackward
+		? hasMore
+		: after !== undefined && after !== null && items.length > 0;
+
+	const first = items[0];
+	const last = items[items.length - 1];
+
 	return {
-		...args,
-		maybeHasNextPage: args.items.length === args.limit,
+		items,
+		nextCursor: hasNextPage && last !== undefined ? getCursor(last) : null,
+		prevCursor:
+			hasPreviousPage && first !== undefined ? getCursor(first) : null,
+		hasNextPage,
+		hasPreviousPage,
+		maybeHasNextPage: hasNextPage,
 	};
 }
 
@@ -1,6 +1,7 @@
 import { type ZodError, z } from "zod";
-import { CommonErrors } from "../errors";
-import { isZodError } from "../helpers";
+import type { HttpStatus } from "../constants";
+import { AppError, CommonErrors } from "../errors";
+import { isZodError, partition } from "../helpers";
 import type { ErrorModel } from "./error.model";
 
 export const successResultSchema = z.object({
@@ -16,14 +17,36 @@ export const failureResultSchema = z.object({
 	statusCode: z.number(),
 	description: z.string(),
 	fieldErrors: z.record(z.string(), z.array(z.string())).optional(),
+	formErrors: z.array(z.string()).optional(),
+	metadata: z.record(z.string(), z.unknown()).optional(),
 });
 
 export const failureResultResponseSchema = z.object({
 	code: z.string(),
 	description: z.string(),
 	fieldErrors: z.record(z.string(), z.array(z.string())).optional(),
+	formErrors: z.array(z.string()).optional(),
 });
 
+/**
+ * RFC 9457 Problem Details object. Unknown extension members are preserved.
+ */
+export const problemDetailsSchema = z.looseObject({
+	type: z.string().default("about:blank"),
+	title: z.string().optional(),
+	status: z.int().min(100).max(599).optional(),
+	detail: z.string().optional(),
+	instance: z.string().optional(),
+	code: z
+		.string()
+		.regex(/^[^.]+\.[^.]+$/)
+		.optional(),
+	errors: z.record(z.string(), z.array(z.string())).optional(),
+	formErrors: z.array(z.string()).optional(),
+});
+
+export const ProblemDetailsContentType = "application/problem+json";
+
 export type SuccessResult<T = void> = T extends void
 	? {
 			__brand: "successResult";
@@ -35,22 +58,57 @@ export type SuccessResult<T = void> = T extends void
 			data: T;
 		};
 
-export type FailureResult = {
+export type FailureResult<E extends ErrorModel = ErrorModel> = {
 	__brand: "failureResult";
 	success: false | undefined;
-	code: ErrorModel["code"];
-	statusCode: ErrorModel["statusCode"];
+	code: E["code"];
+	statusCode: E["statusCode"];
 	description: ErrorModel["description"];
 	fieldErrors?: Record<string, string[]>;
+	formErrors?: string[];
+	/** Additional context for logging and monitoring, left out of response structs */
+	metadata?: Record<string, unknown>;
 };
 
-export type FailureResultResponse = {
-	code: ErrorModel["code"];
+export type FailureResultResponse<E extends ErrorModel = ErrorModel> = {
+	code: E["code"];
 	description: ErrorModel["description"];
 	fieldErrors?: Record<string, string[]>;
+	formErrors?: string[];
 };
 
-export type Result<T = void> = SuccessResult<T> | FailureResult;
+export type ProblemDetails<E extends ErrorModel = ErrorModel> = {
+	type: string;
+	title: string;
+	status: E["statusCode"];
+	detail: string;
+	instance?: string;
+	code: E["code"];
+	errors?: Record<string, string[]>;
+	formErrors?: string[];
+};
+
+export type ProblemDetailsOptions = {
+	/** Prefix of the problem type URI, followed by the error code (default: "urn:problem-type:") */
+	typeBaseUri?: string;
+	/** URI reference identifying this specific occurrence of the problem */
+	instance?: string;
+};
+
+/**
+ * Union of a success carrying `T` and a failure of one of the error models in `E`
+ * @example Result<User, typeof AuthErrors.InvalidCredentials | typeof CommonErrors.ValidationError>
+ */
+export type Result<T = void, E extends ErrorModel = ErrorModel> =
+	| SuccessResult<T>
+	| FailureResult<E>;
+
+/**
+ * Extracts the error model type from a result or failure type
+ * @example ResultError<Result<User, typeof AuthErrors.Unauthorized>> = typeof AuthErrors.Unauthorized
+ */
+export type ResultError<R> =
+	R extends FailureResult<infer E extends ErrorModel> ? E : never;
 
 export function ok(): SuccessResult<void>;
 export function ok<T>(data: T): SuccessResult<T>;
@@ -68,10 +126,11 @@ export function ok<T>(data?: T): SuccessResult<T> | SuccessResult<void> {
 	} as SuccessResult<T>;
 }
 
-export function failure(
-	error: ErrorModel,
+export function failure<E extends ErrorModel>(
+	error: E,
 	fieldErrors?: Record<string, string[]>,
-): FailureResult {
+	formErrors?: string[],
+): FailureResult<E> {
 	return {
 		__brand: "failureResult",
 		success: false,
@@ -79,27 +138,84 @@ export function failure(
 		statusCode: error.statusCode,
 		description: error.description,
 		fieldErrors,
+		...(formErrors !== undefined && { formErrors }),
 	};
 }
 
+export type ValidationErrorOptions = {
+	/**
+	 * How zod issue paths become `fieldErrors` keys (default: "flat")
+	 * - "flat": top-level key only (`address`), as `z.flattenError` does
+	 * - "dot": full dot path (`address.city`, `items.2.qty`), usable with `getPath`/`setPath`
+	 * - "bracket": dot path with array indices in brackets (`items[2].qty`)
+	 */
+	pathStyle?: "flat" | "dot" | "bracket";
+};
+
+function formatIssuePath(
+	path: PropertyKey[],
+	pathStyle: "dot" | "bracket",
+): string {
+	return path.reduce<string>((key, segment) => {
+		if (pathStyle === "bracket" && typeof segment === "number") {
+			return `${key}[${segment}]`;
+		}
+		return key ? `${key}.${String(segment)}` : String(segment);
+	}, "");
+}
+
+/**
+ * Creates a `CommonErrors.ValidationError` failure from a zod error or field errors.
+ * Issues without a path are surfaced as `formErrors`.
+ * @param error - Zod error or field errors keyed by field
+ * @param options - Key style for nested and array-indexed fields
+ * @returns Validation failure with field and form errors
+ * @example validationError(parsed.error, { pathStyle: "bracket" }) // fieldErrors: { "items[2].qty": ["Too small"] }
+ */
 export function validationError(
 	error: ZodError | Record<string, string[]>,
-): FailureResult {
-	if (isZodError(error)) {
-		const fieldErrors = z.flattenError(error).fieldErrors;
-		return failure(CommonErrors.ValidationError, fieldErrors);
+	options: ValidationErrorOptions = {},
+): FailureResult<typeof CommonErrors.ValidationError> {
+	const { pathStyle = "flat" } = options;
+
+	if (!isZodError(error)) {
+		return failure(CommonErrors.ValidationError, error);
+	}
+
+	const { formErrors, fieldErrors: flatFieldErrors } = z.flattenError(error);
+
+	if (pathStyle === "flat") {
+		return failure(
+			CommonErrors.ValidationError,
+			flatFieldErrors,
+			formErrors.length > 0 ? formErrors : undefined,
+		);
+	}
+
+	const fieldErrors: Record<string, string[]> = {};
+	for (const issue of error.issues) {
+		if (issue.path.length === 0) continue;
+		const key = formatIssuePath(issue.path, pathStyle);
+		fieldErrors[key] = [...(fieldErrors[key] ?? []), issue.message];
 	}
 
-	return failure(CommonErrors.ValidationError, error);
+	return failure(
+		CommonErrors.ValidationError,
+		fieldErrors,
+		formErrors.length > 0 ? formErrors : undefined,
+	);
 }
 
-export function toFailureResponseStruct(
-	failResult: FailureResult,
-): FailureResultResponse {
+export function toFailureResponseStruct<E extends ErrorModel>(
+	failResult: FailureResult<E>,
+): FailureResultResponse<E> {
 	return {
 		code: failResult.code,
 		description: failResult.description,
 		fieldErrors: failResult.fieldErrors,
+		...(failResult.formErrors !== undefined && {
+			formErrors: failResult.formErrors,
+		}),
 	};
 }
 
@@ -135,6 +251,92 @@ export function isFailureResponseStruct(
 	);
 }
 
+/**
+ * Converts a failure result to an RFC 9457 Problem Details object (`application/problem+json`)
+ * @param failResult - The failure to convert
+ * @param options - Type URI prefix and occurrence instance
+ * @returns Problem Details with `code`, `errors` and `formErrors` extension members
+ * @example
+ * toProblemDetails(failure(AuthErrors.TokenExpired), { instance: "/sessions/42" })
+ * // { type: "urn:problem-type:auth.token_expired", title: "Token Expired", status: 401, detail: "...", instance: "/sessions/42", code: "auth.token_expired" }
+ */
+export function toProblemDetails<E extends ErrorModel>(
+	failResult: FailureResult<E>,
+	options: ProblemDetailsOptions = {},
+): ProblemDetails<E> {
+	const { typeBaseUri = "urn:problem-type:", instance } = options;
+
+	return {
+		type: `${typeBaseUri}${failResult.code}`,
+		title: getErrorCodeTitle(failResult.code),
+		status: failResult.statusCode,
+		detail: failResult.description,
+		...(instance !== undefined && { instance }),
+		code: failResult.code,
+		...(failResult.fieldErrors !== undefined && {
+			errors: failResult.fieldErrors,
+		}),
+		...(failResult.formErrors !== undefined && {
+			formErrors: failResult.formErrors,
+		}),
+	};
+}
+
+/**
+ * Converts a parsed RFC 9457 Problem Details object back to a failure result.
+ * The code is taken from the `code` extension member, then from the type URI,
+ * falling back to `CommonErrors.UnhandledError`.
+ * @param problem - Problem Details, e.g. the output of `problemDetailsSchema.parse(body)`
+ * @param options - Type URI prefix used when the code must be derived from `type`
+ * @returns Failure result mirroring the problem
+ * @example fromProblemDetails(problemDetailsSchema.parse(await response.json()))
+ */
+export function fromProblemDetails(
+	problem: z.infer<typeof problemDetailsSchema>,
+	options: Pick<ProblemDetailsOptions, "typeBaseUri"> = {},
+): FailureResult {
+	const { typeBaseUri = "urn:problem-type:" } = options;
+	const typeCode = problem.type.startsWith(typeBaseUri)
+		? problem.type.slice(typeBaseUri.length)
+		: undefined;
+	const code =
+		problem.code ??
+		(typeCode && /^[^.]+\.[^.]+$/.test(typeCode)
+			? typeCode
+			: CommonErrors.UnhandledError.code);
+
+	return failure(
+		{
+			code: code as ErrorModel["code"],
+			statusCode: (problem.status ??
+				CommonErrors.UnhandledError.statusCode) as HttpStatus,
+			description:
+				problem.detail ??
+				problem.title ??
+				CommonErrors.UnhandledError.description,
+		},
+		problem.errors,
+		problem.formErrors,
+	);
+}
+
+export function isProblemDetails(result: unknown): result is ProblemDetails {
+	return (
+		typeof result === "object" &&
+		result !== null &&
+		"type" in result &&
+		typeof result.type === "string" &&
+		"title" in result &&
+		typeof result.title === "string" &&
+		"status" in result &&
+		typeof result.status === "number" &&
+		"detail" in result &&
+		typeof result.detail === "string" &&
+		"code" in result &&
+		typeof result.code === "string"
+	);
+}
+
 export function isSuccessResult(result: unknown): result is SuccessResult {
 	return (
 		typeof result === "object" &&
@@ -156,6 +358,367 @@ export function getErrorCodeTitle(code: string): string {
 	return code
 		.split(".")
 		.slice(1)
+		.flatMap((segment) => segment.split("_"))
+		.filter(Boolean)
 		.map((part) => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase())
 		.join(" ");
 }
+
+function getSuccessData<T>(result: SuccessResult<T>): T {
+	return (result as { data?: T }).data as T;
+}
+
+/**
+ * Transforms the data of a success result, passing failures through untouched
+ * @param result - The result to transform
+ * @param fn - Mapper applied to the success data
+ * @returns A new success result with the mapped data, or the original failure
+ * @example mapResult(ok(2), (x) => x * 2) // ok(4)
+ */
+export function mapResult<T, U, E extends ErrorModel>(
+	result: Result<T, E>,
+	fn: (data: T) => U,
+): Result<U, E> {
+	if (isFailureResult(result)) return result;
+	return ok(fn(getSuccessData(result)));
+}
+
+/**
+ * Chains a result-returning function onto a success result, short-circuiting on failure
+ * @param result - The result to chain from
+ * @param fn - Function returning the next result
+ * @returns The result of `fn`, or the original failure
+ * @example flatMapResult(ok(userId), (id) => findUser(id)) // Result<User>
+ */
+export function flatMapResult<
+	T,
+	U,
+	E extends ErrorModel,
+	F extends ErrorModel = never,
+>(result: Result<T, E>, fn: (data: T) => Result<U, F>): Result<U, E | F> {
+	if (isFailureResult(result)) return result;
+	return fn(getSuccessData(result));
+}
+
+/**
+ * Alias of {@link flatMapResult}
+ */
+export const andThen = flatMapResult;
+
+/**
+ * Transforms the failure of a result, passing successes through untouched
+ * @param result - The result to transform
+ * @param fn - Mapper applied to the failure
+ * @returns The original success, or the mapped failure
+ * @example mapError(result, (error) => failure(AuthErrors.Unauthorized))
+ */
+export function mapError<T, E extends ErrorModel, F extends ErrorModel>(
+	result: Result<T, E>,
+	fn: (error: FailureResult<E>) => FailureResult<F>,
+): Result<T, F> {
+	if (isFailureResult(result)) return fn(result);
+	return result;
+}
+
+/**
+ * Recovers from a failure by running a function that returns a new result
+ * @param result - The result to recover from
+ * @param fn - Function returning a fallback result
+ * @returns The original success, or the result of `fn`
+ * @example orElse(findCachedUser(id), () => findUser(id))
+ */
+export function orElse<T, E extends ErrorModel, F extends ErrorModel = never>(
+	result: Result<T, E>,
+	fn: (error: FailureResult<E>) => Result<T, F>,
+): Result<T, F> {
+	if (isFailureResult(result)) return fn(result);
+	return result;
+}
+
+/**
+ * Runs a side effect with the success data and returns the result unchanged
+ * @param result - The result to inspect
+ * @param fn - Side effect invoked on success
+ * @returns The original result
+ * @example tapResult(result, (user) => logger.info("found", user.id))
+ */
+export function tapResult<T, E extends ErrorModel>(
+	result: Result<T, E>,
+	fn: (data: T) => void,
+): Result<T, E> {
+	if (!isFailureResult(result)) fn(getSuccessData(result));
+	return result;
+}
+
+/**
+ * Runs a side effect with the failure and returns the result unchanged
+ * @param result - The result to inspect
+ * @param fn - Side effect invoked on failure
+ * @returns The original result
+ * @example tapError(result, (error) => logger.warn(error.code))
+ */
+export function tapError<T, E extends ErrorModel>(
+	result: Result<T, E>,
+	fn: (error: FailureResult<E>) => void,
+): Result<T, E> {
+	if (isFailureResult(result)) fn(result);
+	return result;
+}
+
+export type MatchResultHandlers<T, U, E extends ErrorModel = ErrorModel> = {
+	success: (data: T) => U;
+	failure: (error: FailureResult<E>) => U;
+};
+
+/**
+ * Folds a result into a single value by handling both branches
+ * @param result - The result to match
+ * @param handlers - Handlers for the success and failure branches
+ * @returns The value returned by the matching handler
+ * @example matchResult(result, { success: (user) => user.name, failure: (error) => error.description })
+ */
+export function matchResult<T, U, E extends ErrorModel>(
+	result: Result<T, E>,
+	handlers: MatchResultHandlers<T, U, E>,
+): U {
+	if (isFailureResult(result)) return handlers.failure(result);
+	return handlers.success(getSuccessData(result));
+}
+
+/**
+ * Extracts the success data, throwing if the result is a failure
+ * @param result - The result to unwrap
+ * @returns The success data
+ * @throws AppError carrying the failure when the result is a failure
+ * @example unwrap(ok(1)) // 1
+ */
+export function unwrap<T, E extends ErrorModel>(result: Result<T, E>): T {
+	if (isFailureResult(result)) {
+		throw AppError.fromResult(result);
+	}
+	return getSuccessData(result);
+}
+
+/**
+ * Extracts the success data, falling back to a default value on failure
+ * @param result - The result to unwrap
+ * @param defaultValue - Value returned when the result is a failure
+ * @returns The success data or the default value
+ * @example unwrapOr(failure(CommonErrors.UnhandledError), 0) // 0
+ */
+export function unwrapOr<T, E extends ErrorModel, D = T>(
+	result: Result<T, E>,
+	defaultValue: D,
+): T | D {
+	if (isFailureResult(result)) return defaultValue;
+	return getSuccessData(result);
+}
+
+/**
+ * Handlers keyed by error code, one for every code of `E`
+ */
+export type MatchErrorHandlers<E extends ErrorModel, U> = {
+	[K in E["code"]]: (error: FailureResult<Extract<E, { code: K }>>) => U;
+};
+
+/**
+ * Handles a failure by its error code, exhaustively checked at type level.
+ * Pass a `_` fallback to handle only some of the codes.
+ * @param error - The failure to handle
+ * @param handlers - A handler per error code, or a partial set plus a `_` fallback
+ * @returns The value returned by the matching handler
+ * @example
+ * matchError(result, {
+ *   "auth.invalid_credentials": () => "Wrong email or password",
+ *   "common.validation_error": (error) => JSON.stringify(error.fieldErrors),
+ * });
+ */
+export function matchError<E extends ErrorModel, U>(
+	error: FailureResult<E>,
+	handlers: MatchErrorHandlers<E, U>,
+): U;
+export function matchError<E extends ErrorModel, U>(
+	error: FailureResult<E>,
+	handlers: Partial<MatchErrorHandlers<E, U>> & {
+		_: (error: FailureResult<E>) => U;
+	},
+): U;
+export function matchError<E extends ErrorModel, U>(
+	error: FailureResult<E>,
+	handlers: Partial<Record<string, (error: FailureResult<E>) => U>>,
+): U {
+	const handler = handlers[error.code] ?? handlers._;
+
+	if (!handler) {
+		throw new Error(`matchError: no handler for error code "${error.code}"`);
+	}
+
+	return handler(error);
+}
+
+type UnknownResult =
+	| { __brand: "successResult"; success: true }
+	| FailureResult;
+
+type ResultCollection =
+	| readonly UnknownResult[]
+	| Record<string, UnknownResult>;
+
+/**
+ * Extracts the success data type from a result type
+ * @example ResultData<Result<User>> = User
+ */
+export type ResultData<R> = R extends { success: true; data: infer T }
+	? T
+	: R extends { success: true }
+		? undefined
+		: never;
+
+/**
+ * Union of the error models of a tuple, array or record of results
+ */
+export type ResultsError<R extends ResultCollection> = ResultError<
+	R extends readonly UnknownResult[] ? R[number] : R[keyof R]
+>;
+
+/**
+ * Maps a tuple, array or record of results to the matching shape of success data
+ * @example ResultsData<[Result<User>, Result<number>]> = [User, number]
+ */
+export type ResultsData<R extends ResultCollection> = {
+	-readonly [K in keyof R]: ResultData<R[K]>;
+};
+
+function collectionEntries(results: ResultCollection): [string, unknown][] {
+	return Object.entries(results);
+}
+
+function fromCollectionEntries<R extends ResultCollection>(
+	results: R,
+	entries: [string, unknown][],
+): ResultsData<R> {
+	if (Array.isArray(results)) {
+		return entries.map(([, value]) => value) as ResultsData<R>;
+	}
+	return Object.fromEntries(entries) as ResultsData<R>;
+}
+
+/**
+ * Combines a tuple, array or record of results into a single result, short-circuiting on the first failure
+ * @param results - The results to combine
+ * @returns Success with all data in the same shape as the input, or the first failure
+ * @example allResults([ok(1), ok("a")]) // ok([1, "a"])
+ * @example allResults({ user: findUser(id), org: findOrg(orgId) }) // Result<{ user: User; org: Org }>
+ */
+export function allResults<const R extends ResultCollection>(
+	results: R,
+): Result<ResultsData<R>, ResultsError<R>> {
+	const entries: [string, unknown][] = [];
+
+	for (const [key, result] of collectionEntries(results)) {
+		if (isFailureResult(result)) {
+			return result as FailureResult<ResultsError<R>>;
+		}
+		entries.push([key, getSuccessData(result as SuccessResult<unknown>)]);
+	}
+
+	return ok(fromCollectionEntries(results, entries));
+}
+
+/**
+ * Combines a tuple, array or record of results into a single result, collecting every failure.
+ * Field errors of all failures are merged into one `CommonErrors.ValidationError`; failures without
+ * field errors contribute their description under their index or record key.
+ * @param results - The results to combine
+ * @returns Success with all data in the same shape as the input, or a merged validation failure
+ * @example allSettledResults({ email: validateEmail(input.email), age: validateAge(input.age) })
+ */
+export function allSettledResults<const R extends ResultCollection>(
+	results: R,
+): Result<ResultsData<R>, typeof CommonErrors.ValidationError> {
+	const entries: [string, unknown][] = [];
+	const fieldErrors: Record<string, string[]> = {};
+	const formErrors: string[] = [];
+	let hasFailure = false;
+
+	for (const [key, result] of collectionEntries(results)) {
+		if (!isFailureResult(result)) {
+			entries.push([key, getSuccessData(result as SuccessResult<unknown>)]);
+			continue;
+		}
+
+		hasFailure = true;
+		const errors = result.fieldErrors ?? { [key]: [result.description] };
+		for (const [field, messages] of Object.entries(errors)) {
+			fieldErrors[field] = [...(fieldErrors[field] ?? []), ...messages];
+		}
+		formErrors.push(...(result.formErrors ?? []));
+	}
+
+	if (hasFailure) {
+		return failure(
+			CommonErrors.ValidationError,
+			fieldErrors,
+			formErrors.length > 0 ? formErrors : undefined,
+		);
+	}
+
+	return ok(fromCollectionEntries(results, entries));
+}
+
+/**
+ * Returns the first success from a list of results
+ * @param results - The results to search
+ * @returns The first success, the last failure when none succeeded, or `CommonErrors.UnhandledError` when empty
+ * @example anyResult([findCachedUser(id), findUser(id)]) // Result<User>
+ */
+export function anyResult<const R extends readonly UnknownResult[]>(
+	results: R,
+): Result<
+	ResultData<R[number]>,
+	ResultError<R[number]> | typeof CommonErrors.UnhandledError
+> {
+	let lastFailure: FailureResult<
+		ResultError<R[number]> | typeof CommonErrors.UnhandledError
+	> = failure(CommonErrors.UnhandledError);
+
+	for (const result of results) {
+		if (!isFailureResult(result)) {
+			return result as SuccessResult<ResultData<R[number]>>;
+		}
+		lastFailure = result as FailureResult<ResultError<R[number]>>;
+	}
+
+	return lastFailure;
+}
+
+/**
+ * Splits a list of results into success data and failures
+ * @param results - The results to split
+ * @returns Tuple of [success data, failures]
+ * @example partitionResults([ok(1), failure(CommonErrors.UnhandledError), ok(2)]) // [[1, 2], [FailureResult]]
+ */
+export function partitionResults<T, E extends ErrorModel>(
+	results: Result<T, E>[],
+): [T[], FailureResult<E>[]] {
+	const [successes, failures] = partition(
+		results,
+		(result) => !isFailureResult(result),
+	);
+
+	return [
+		(successes as SuccessResult<T>[]).map(getSuccessData),
+		failures as FailureResult<E>[],
+	];
+}
+
+/**
+ * Aggregation utilities for combining many results into one
+ * @example Result.all([findUser(id), findOrg(orgId)]) // Result<[User, Org]>
+ */
+export const Result = {
+	all: allResults,
+	allSettled: allSettledResults,
+	any: anyResult,
+	partition: partitionResults,
+};
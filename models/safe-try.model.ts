@@ -0,0 +1,103 @@
+import { AsyncResult } from "./async-result.model";
+import type { ErrorModel } from "./error.model";
+import {
+	type FailureResult,
+	isFailureResult,
+	type Result,
+	type ResultError,
+	unwrap,
+} from "./result.model";
+
+/**
+ * Unwraps a result inside a {@link safeTry} block. Use with `yield*` to get the success data;
+ * a failure short-circuits the whole block.
+ */
+export type ResultUnwrapper = {
+	<T, E extends ErrorModel>(
+		result: Result<T, E>,
+	): Generator<FailureResult<E>, T, unknown>;
+	<T, E extends ErrorModel>(
+		result: PromiseLike<Result<T, E>>,
+	): AsyncGenerator<FailureResult<E>, T, unknown>;
+};
+
+function* unwrapResult<T, E extends ErrorModel>(
+	result: Result<T, E>,
+): Generator<FailureResult<E>, T, unknown> {
+	if (isFailureResult(result)) {
+		yield result;
+		throw new Error("safeTry: generator resumed after a failure was yielded");
+	}
+	return unwrap(result);
+}
+
+async function* unwrapAsyncResult<T, E extends ErrorModel>(
+	result: PromiseLike<Result<T, E>>,
+): AsyncGenerator<FailureResult<E>, T, unknown> {
+	return yield* unwrapResult(await result);
+}
+
+const unwrapper = (<T>(result: Result<T> | PromiseLike<Result<T>>) => {
+	if ("then" in result && typeof result.then === "function") {
+		return unwrapAsyncResult(result);
+	}
+	return unwrapResult(result as Result<T>);
+}) as ResultUnwrapper;
+
+/**
+ * Runs a generator block where `yield* $(result)` unwraps success data and the first failure
+ * short-circuits out of the block. `finally` blocks inside the generator still run.
+ * @param body - Generator function receiving the `$` unwrapper and returning a result
+ * @returns The returned result, or the first yielded failure. Async generators produce an AsyncResult.
+ * The error type is the union of every unwrapped result's errors and the returned result's errors.
+ * @example
+ * const result = safeTry(function* ($) {
+ *   const user = yield* $(findUser(id));
+ *   const org = yield* $(findOrg(user.orgId));
+ *   return ok({ user, org });
+ * });
+ *
+ * @example
+ * const result = await safeTry(async function* ($) {
+ *   const user = yield* $(fromPromise(fetchUser(id)));
+ *   const token = yield* $(signToken(user));
+ *   return ok(token);
+ * });
+ */
+export function safeTry<
+	T,
+	Y extends FailureResult,
+	E extends ErrorModel = never,
+>(
+	body: ($: ResultUnwrapper) => Generator<Y, Result<T, E>, unknown>,
+): Result<T, E | ResultError<Y>>;
+export function safeTry<
+	T,
+	Y extends FailureResult,
+	E extends ErrorModel = never,
+>(
+	body: ($: ResultUnwrapper) => AsyncGenerator<Y, Result<T, E>, unknown>,
+): AsyncResult<T, E | ResultError<Y>>;
+export function safeTry<T>(
+	body: (
+		$: ResultUnwrapper,
+	) =>
+		| Generator<FailureResult, Result<T>, unknown>
+		| AsyncGenerator<FailureResult, Result<T>, unknown>,
+): Result<T> | AsyncResult<T> {
+	const generator = body(unwrapper);
+
+	if (Symbol.asyncIterator in generator) {
+		return new AsyncResult(
+			(async () => {
+				const step = await generator.next();
+				if (!step.done) await generator.return(step.value);
+				return step.value;
+			})(),
+		);
+	}
+
+	const step = generator.next();
+	if (!step.done) generator.return(step.value);
+	return step.value;
+}
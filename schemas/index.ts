@@ -1 +1,2 @@
 export * from "./common.schema";
+export * from "./query.schema";
@@ -0,0 +1,290 @@
+import z from "zod";
+
+export const filterOperators = [
+	"eq",
+	"ne",
+	"in",
+	"gt",
+	"gte",
+	"lt",
+	"lte",
+	"contains",
+	"between",
+] as const;
+
+export type FilterOperator = (typeof filterOperators)[number];
+
+export type SortDirection = "asc" | "desc";
+
+export type SortSpec<K extends string = string> = {
+	field: K;
+	direction: SortDirection;
+};
+
+/**
+ * A single filter on a field. `in` carries a list of values and `between` an inclusive `[from, to]` range.
+ */
+export type FilterCondition<K extends string = string, V = unknown> =
+	| {
+			field: K;
+			operator: Exclude<FilterOperator, "in" | "between">;
+			value: V;
+	  }
+	| { field: K; operator: "in"; value: V[] }
+	| { field: K; operator: "between"; value: [V, V] };
+
+/**
+ * Zod schemas parsing the filter values of each filterable field, keyed by field name
+ */
+export type FilterFields = Record<string, z.ZodType>;
+
+export type FilterConditionOf<F extends FilterFields> = {
+	[K in keyof F & string]: FilterCondition<K, z.output<F[K]>>;
+}[keyof F & string];
+
+/**
+ * Parsed sort and filter query
+ */
+export type ListQuery<
+	S extends string = string,
+	F extends FilterFields = FilterFields,
+> = {
+	sort: SortSpec<S>[];
+	filter: FilterConditionOf<F>[];
+};
+
+const FILTER_KEY_PATTERN = /^filter\[([^[\]]+)\](?:\[([^[\]]+)\])?(?:\[\])?$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFilterOperator(value: string): value is FilterOperator {
+	return (filterOperators as readonly string[]).includes(value);
+}
+
+/**
+ * Nest flat `filter[field][operator]` keys, as produced by `URLSearchParams`,
+ * into the `{ filter: { field: { operator } } }` shape produced by `qs`
+ */
+function expandFilterKeys(query: unknown): unknown {
+	if (!isRecord(query)) return query;
+
+	const rest: Record<string, unknown> = {};
+	const filter = new Map<string, Record<string, unknown>>();
+
+	for (const [key, value] of Object.entries(query)) {
+		const match = FILTER_KEY_PATTERN.exec(key);
+		if (!match) {
+			rest[key] = value;
+			continue;
+		}
+		const [, field = "", operator = "eq"] = match;
+		filter.set(field, { ...filter.get(field), [operator]: value });
+	}
+
+	if (filter.size === 0) return query;
+
+	return {
+		...rest,
+		filter: {
+			...(isRecord(query.filter) ? query.filter : {}),
+			...Object.fromEntries(filter),
+		},
+	};
+}
+
+/**
+ * Zod schema parsing a comma-separated sort string into sort specs.
+ * A leading `-` sorts descending; fields outside the whitelist are reported on the sort field.
+ * @param fields - Fields allowed to sort by
+ * @returns Zod schema transforming `"-createdAt,name"` (or `["-createdAt", "name"]`) into sort specs
+ * @example
+ * const schema = z.object({ sort: sortSchema(["createdAt", "name"]).optional() });
+ * schema.parse({ sort: "-createdAt,name" });
+ * // { sort: [{ field: "createdAt", direction: "desc" }, { field: "name", direction: "asc" }] }
+ */
+export function sortSchema<const S extends string>(fields: readonly S[]) {
+	const allowed = new Set<string>(fields);
+
+	return z
+		.union([z.string(), z.array(z.string())])
+		.transform((value, ctx): SortSpec<S>[] => {
+			const specs: SortSpec<S>[] = [];
+			const tokens = (Array.isArray(value) ? value.join(",") : value).split(
+				",",
+			);
+
+			for (const token of tokens) {
+				const trimmed = token.trim();
+				if (!trimmed) continue;
+
+				const field = trimmed.replace(/^[-+]/, "");
+				if (!allowed.has(field)) {
+					ctx.addIssue({
+						code: "custom",
+						message: `Cannot sort by "${field}"`,
+					});
+					continue;
+				}
+				if (specs.some((spec) => spec.field === field)) continue;
+
+				specs.push({
+					field: field as S,
+					direction: trimmed.startsWith("-") ? "desc" : "asc",
+				});
+			}
+			return specs;
+		});
+}
+
+/**
+ * Zod schema parsing `{ field: { operator: value } }` filters into filter conditions.
+ * Values are parsed with the field's schema; `in` and `between` take comma-separated values
+ * and a bare `{ field: value }` means `eq`. Unknown fields, unknown operators and invalid values
+ * are reported at `[field, operator]`.
+ * @param fields - Filterable fields with the zod schema of their values; use coercing schemas
+ * (e.g. `z.coerce.number()`, `zodIsoDatetimeSchema`) since query values are strings
+ * @returns Zod schema transforming the filter object into filter conditions
+ * @example
+ * const schema = z.object({
+ *   filter: filterSchema({ status: z.enum(["paid", "open"]), price: z.coerce.number() }).optional(),
+ * });
+ * schema.parse(qs.parse("filter[status][in]=paid,open&filter[price][gte]=10"));
+ * // { filter: [{ field: "status", operator: "in", value: ["paid", "open"] }, { field: "price", operator: "gte", value: 10 }] }
+ */
+export function filterSchema<F extends FilterFields>(fields: F) {
+	return z
+		.record(z.string(), z.unknown())
+		.transform((input, ctx): FilterConditionOf<F>[] => {
+			const conditions: FilterCondition[] = [];
+
+			for (const [field, raw] of Object.entries(input)) {
+				const schema = Object.hasOwn(fields, field) ? fields[field] : undefined;
+				if (!schema) {
+					ctx.addIssue({
+						code: "custom",
+						message: `Cannot filter by "${field}"`,
+						path: [field],
+					});
+					continue;
+				}
+
+				const operations: [string, unknown][] = isRecord(raw)
+					? Object.entries(raw)
+					: [["eq", raw]];
+
+				for (const [operator, rawValue] of operations) {
+					const path = [field, operator];
+					const addIssue = (message: string) =>
+						ctx.addIssue({ code: "custom", message, path });
+
+					if (!isFilterOperator(operator)) {
+						addIssue(`Unknown filter operator "${operator}"`);
+						continue;
+					}
+
+					const rawValues = Array.isArray(rawValue) ? rawValue : [rawValue];
+					if (!rawValues.every((value) => typeof value === "string")) {
+						addIssue("Expected a string value");
+						continue;
+					}
+
+					const isList = operator === "in" || operator === "between";
+					const parts = isList
+						? rawValues
+								.flatMap((value) => value.split(","))
+								.map((part) => part.trim())
+						: rawValues;
+
+					if (!isList && parts.length !== 1) {
+						addIssue(`"${operator}" expects a single value`);
+						continue;
+					}
+					if (operator === "between" && parts.length !== 2) {
+						addIssue(`"between" expects two comma-separated values`);
+						continue;
+					}
+
+					const values: unknown[] = [];
+					for (const part of parts) {
+						const parsed = schema.safeParse(part);
+						if (!parsed.success) {
+							for (const issue of parsed.error.issues) addIssue(issue.message);
+							break;
+						}
+						values.push(parsed.data);
+					}
+					if (values.length !== parts.length) continue;
+
+					if (operator === "in") {
+						conditions.push({ field, operator, value: values });
+					} else if (operator === "between") {
+						conditions.push({
+							field,
+							operator,
+							value: [values[0], values[1]],
+						});
+					} else {
+						conditions.push({ field, operator, value: values[0] });
+					}
+				}
+			}
+			return conditions as FilterConditionOf<F>[];
+		});
+}
+
+/**
+ * Options for listQuerySchema function
+ */
+export type ListQuerySchemaOptions<S extends string, F extends FilterFields> = {
+	/** Fields allowed in `sort` (default: none) */
+	sortable?: readonly S[];
+	/** Fields allowed in `filter`, with the zod schema of their values (default: none) */
+	filterable?: F;
+	/** Sort used when the query has none, e.g. `"-createdAt"` (default: no sorting) */
+	defaultSort?: string;
+};
+
+/**
+ * Zod schema factory for list queries such as `sort=-createdAt,name&filter[status][in]=a,b&filter[price][gte]=10`.
+ * Accepts both nested (`qs`) and flat (`URLSearchParams`) query objects and only lets whitelisted fields through.
+ * @param options - Sortable fields, filterable fields with their zod schemas, and the default sort
+ * @returns Zod schema parsing a query object into `{ sort, filter }`
+ * @example
+ * const listOrdersQuerySchema = listQuerySchema({
+ *   sortable: ["createdAt", "total"],
+ *   filterable: { status: z.enum(["open", "paid"]), total: z.coerce.number() },
+ *   defaultSort: "-createdAt",
+ * });
+ *
+ * const parsed = listOrdersQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+ * if (!parsed.success) return validationError(parsed.error, { pathStyle: "dot" });
+ * // fieldErrors: { "filter.total.gte": ["Invalid input: expected number, received NaN"] }
+ *
+ * parsed.data.filter; // [{ field: "status", operator: "in", value: ["open", "paid"] }, ...]
+ *
+ * @remarks
+ * **Backend**:
+ * - Map the specs onto your query builder with a `switch` on `operator`; field names are
+ *   guaranteed to come from the whitelist, so they are safe to use as column names
+ *
+ * **⚠️ Pitfalls & Safety**:
+ * - Filter values arrive as strings: use `z.coerce.number()`, `z.stringbool()` or `zodIsoDatetimeSchema`
+ * - Commas split `in` and `between` values, so those values cannot contain commas themselves
+ * - Only fields with a matching index should be sortable or filterable on large tables
+ */
+export function listQuerySchema<
+	const S extends string = never,
+	F extends FilterFields = Record<never, z.ZodType>,
+>(options: ListQuerySchemaOptions<S, F>) {
+	const { sortable = [], filterable = {} as F, defaultSort = "" } = options;
+
+	return z.preprocess(
+		expandFilterKeys,
+		z.object({
+			sort: sortSchema(sortable).prefault(defaultSort),
+			filter: filterSchema(filterable).prefault({}),
+		}),
+	);
+}